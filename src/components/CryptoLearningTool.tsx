@@ -1,21 +1,23 @@
-import React, { useState } from 'react';
+import React, { useCallback, useMemo, useState } from 'react';
 import AlgorithmSelector from './AlgorithmSelector';
 import InputPanel from './InputPanel';
 import StepVisualizer from './StepVisualizer';
 import ResultsDisplay from './ResultsDisplay';
 import { Card } from "@/components/ui/card";
 import { useToast } from "@/components/ui/use-toast";
-
-export type Algorithm = 'aes' | 'des' | 'checksum';
-export type Action = 'encrypt' | 'decrypt' | 'both';
+import { Algorithm, Action, ProcessOptions, getAlgorithm } from './algorithms';
+import type { RoundTrip, Step } from '@/lib/crypto/types';
+import { AuthenticationError, PaddingError } from '@/lib/crypto/errors';
 
 export interface CryptoState {
   algorithm: Algorithm | null;
   action: Action;
   input: string;
+  options: ProcessOptions;
   currentStep: number;
-  steps: any[];
+  steps: Step[];
   result: string;
+  roundTrip?: RoundTrip;
   isProcessing: boolean;
 }
 
@@ -24,6 +26,7 @@ const CryptoLearningTool = () => {
     algorithm: null,
     action: 'encrypt',
     input: '',
+    options: {},
     currentStep: 0,
     steps: [],
     result: '',
@@ -31,27 +34,36 @@ const CryptoLearningTool = () => {
   });
   const { toast } = useToast();
   const [currentView, setCurrentView] = useState<'select' | 'input' | 'visualize' | 'results'>('select');
+  // Reviewing from the results page replays the finished trace, so random keys and nonces stay the ones shown there.
+  const [isReviewing, setIsReviewing] = useState(false);
+  const replay = useMemo(
+    () => (isReviewing ? { steps: state.steps, result: state.result, roundTrip: state.roundTrip } : undefined),
+    [isReviewing, state.steps, state.result, state.roundTrip]
+  );
 
   const handleAlgorithmSelect = (algorithm: Algorithm) => {
     setState(prev => ({ ...prev, algorithm }));
     setCurrentView('input');
   };
 
-  const handleStartProcess = (input: string, action: Action) => {
+  const handleStartProcess = (input: string, action: Action, options: ProcessOptions) => {
     setState(prev => ({ 
       ...prev, 
       input, 
       action, 
+      options,
       isProcessing: true 
     }));
+    setIsReviewing(false);
     setCurrentView('visualize');
   };
 
-  const handleProcessComplete = (steps: any[], result: string) => {
+  const handleProcessComplete = (steps: Step[], result: string, roundTrip?: RoundTrip) => {
     setState(prev => ({ 
       ...prev, 
       steps, 
       result, 
+      roundTrip,
       isProcessing: false 
     }));
     setCurrentView('results');
@@ -62,6 +74,7 @@ const CryptoLearningTool = () => {
       algorithm: null,
       action: 'encrypt',
       input: '',
+      options: {},
       currentStep: 0,
       steps: [],
       result: '',
@@ -70,38 +83,37 @@ const CryptoLearningTool = () => {
     setCurrentView('select');
   };
 
-  const handleError = (error: Error) => {
+  const handleError = useCallback((error: Error) => {
     console.error("Crypto processing error:", error);
-    toast({
-      title: "Error Processing",
-      description: `There was an error: ${error.message}. Please try a different input or algorithm.`,
-      variant: "destructive"
-    });
+    if (error instanceof AuthenticationError) {
+      toast({
+        title: "Authentication Failed",
+        description: `The message was rejected because ${error.message}. No plaintext was released.`,
+        variant: "destructive"
+      });
+    } else if (error instanceof PaddingError) {
+      toast({
+        title: "Invalid Padding",
+        description: `${error.message}. Check that the key, IV and padding scheme match the ones used to encrypt.`,
+        variant: "destructive"
+      });
+    } else {
+      toast({
+        title: "Error Processing",
+        description: `There was an error: ${error.message}. Please try a different input or algorithm.`,
+        variant: "destructive"
+      });
+    }
     setState(prev => ({ ...prev, isProcessing: false }));
     setCurrentView('input');
-  };
+  }, [toast]);
 
-  const getBgGradient = () => {
-    if (state.algorithm === 'aes') {
-      return 'from-blue-50 to-indigo-100';
-    } else if (state.algorithm === 'des') {
-      return 'from-emerald-50 to-teal-100';
-    } else if (state.algorithm === 'checksum') {
-      return 'from-amber-50 to-yellow-100';
-    } else {
-      return 'from-slate-50 to-blue-100';
-    }
-  }
+  const theme = state.algorithm ? getAlgorithm(state.algorithm).theme : null;
 
   return (
-    <div className={`container mx-auto px-4 py-8 min-h-screen bg-gradient-to-br ${getBgGradient()}`}>
+    <div className={`container mx-auto px-4 py-8 min-h-screen bg-gradient-to-br ${theme?.gradient ?? 'from-slate-50 to-blue-100'}`}>
       <div className="text-center mb-8">
-        <h1 className={`text-4xl font-bold mb-4 ${
-          state.algorithm === 'aes' ? 'text-blue-800' : 
-          state.algorithm === 'des' ? 'text-emerald-800' : 
-          state.algorithm === 'checksum' ? 'text-amber-800' :
-          'text-gray-800'
-        }`}>
+        <h1 className={`text-4xl font-bold mb-4 ${theme?.heading ?? 'text-gray-800'}`}>
           Cryptographic Algorithms Explorer
         </h1>
         <p className="text-xl text-gray-600 max-w-3xl mx-auto">
@@ -111,12 +123,7 @@ const CryptoLearningTool = () => {
 
       <Card className={`max-w-6xl mx-auto p-6 bg-white shadow-xl rounded-xl ${
         currentView === 'visualize' ? 'border-t-4' : ''
-      } ${
-        state.algorithm === 'aes' ? 'border-blue-500' :
-        state.algorithm === 'des' ? 'border-emerald-500' :
-        state.algorithm === 'checksum' ? 'border-amber-500' :
-        ''
-      }`}>
+      } ${theme?.border ?? ''}`}>
         {currentView === 'select' && (
           <AlgorithmSelector onSelect={handleAlgorithmSelect} />
         )}
@@ -134,19 +141,29 @@ const CryptoLearningTool = () => {
             algorithm={state.algorithm}
             input={state.input}
             action={state.action}
+            options={state.options}
             onComplete={handleProcessComplete}
+            onError={handleError}
             onBack={() => setCurrentView('input')}
+            replay={replay}
           />
         )}
         
         {currentView === 'results' && (
           <ResultsDisplay
             algorithm={state.algorithm!}
+            action={state.action}
+            options={state.options}
             input={state.input}
             result={state.result}
+            roundTrip={state.roundTrip}
             steps={state.steps}
             onReset={handleReset}
-            onViewSteps={() => setCurrentView('visualize')}
+            onViewSteps={() => {
+              setIsReviewing(true);
+              setCurrentView('visualize');
+            }}
+            onRun={(input, options) => handleStartProcess(input, state.action, options)}
           />
         )}
       </Card>
@@ -3,49 +3,132 @@ import React, { useState } from 'react';
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Textarea } from "@/components/ui/textarea";
+import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { ArrowLeft, Play } from 'lucide-react';
-import { Algorithm, Action } from './CryptoLearningTool';
+import KeyInput from './crypto/KeyInput';
+import ModeSelector from './crypto/ModeSelector';
+import EncodingSelect from './crypto/EncodingSelect';
+import { Algorithm, Action, ProcessOptions, getAlgorithm } from './algorithms';
+import type { OptionField } from './algorithms/types';
+import { generateRandomHex, validateKey } from '@/lib/crypto/keys';
+import { CIPHER_MODES, CipherMode, ivLengthFor, validateIv } from '@/lib/crypto/modes';
+import { PaddingScheme } from '@/lib/crypto/padding';
+import { ENCODINGS, Encoding, decodeText, validateEncoding } from '@/lib/crypto/encoding';
 
 interface InputPanelProps {
   algorithm: Algorithm;
-  onStart: (input: string, action: Action) => void;
+  onStart: (input: string, action: Action, options: ProcessOptions) => void;
   onBack: () => void;
 }
 
-const algorithmTitles = {
-  aes: 'AES Encryption',
-  des: 'DES Encryption', 
-  checksum: 'Checksum Calculation'
-};
+type FieldOf<T extends OptionField['type']> = Extract<OptionField, { type: T }>;
 
-const exampleInputs = {
-  aes: 'Hello, this is a secret message!',
-  des: 'Secret123',
-  checksum: 'This is sample data for checksum calculation.'
-};
+const findField = <T extends OptionField['type']>(fields: OptionField[], type: T) =>
+  fields.find((field): field is FieldOf<T> => field.type === type);
 
 const InputPanel: React.FC<InputPanelProps> = ({ algorithm, onStart, onBack }) => {
-  const [input, setInput] = useState(exampleInputs[algorithm]);
-  const [action, setAction] = useState<Action>('encrypt');
+  const plugin = getAlgorithm(algorithm);
+  const keyField = findField(plugin.options, 'key');
+  const modeField = findField(plugin.options, 'cipherMode');
+  const hasOutputEncoding = !!findField(plugin.options, 'outputEncoding');
+  const hasInput = plugin.hasInput !== false;
+
+  const [input, setInput] = useState(plugin.exampleInput);
+  const [action, setAction] = useState<Action>(plugin.actions[0].value);
+  const [key, setKey] = useState(keyField?.defaultKey ?? '');
+  const [mode, setMode] = useState<CipherMode>('cbc');
+  const [iv, setIv] = useState(() => (modeField ? generateRandomHex(modeField.blockSize) : ''));
+  const [aad, setAad] = useState('');
+  const [padding, setPadding] = useState<PaddingScheme>('pkcs7');
+  const [inputEncoding, setInputEncoding] = useState<Encoding>('utf8');
+  const [outputEncoding, setOutputEncoding] = useState<Encoding>('hex');
+  const [params, setParams] = useState<Record<string, string>>(() =>
+    Object.fromEntries(
+      plugin.options.flatMap((field) =>
+        field.type === 'select' || field.type === 'text' ? [[field.name, field.defaultValue ?? '']] : []
+      )
+    )
+  );
+
+  const activeFields = plugin.options.filter(
+    (field) => (!field.actions || field.actions.includes(action)) && (!field.visible || field.visible(params))
+  );
+  const paramError = (field: OptionField): string | null =>
+    field.type === 'text' && field.validate ? field.validate(params[field.name].trim()) : null;
+
+  const inputError = hasInput && input.trim() ? validateEncoding(input.trim(), inputEncoding) : null;
+  const isInputMissing = hasInput && !input.trim();
+  const byteLength = inputError ? null : decodeText(input.trim(), inputEncoding).length;
+  const isParamInvalid = activeFields.some((field) => paramError(field) !== null);
+  const isKeyInvalid = !!keyField && validateKey(keyField.algorithm, key) !== null;
+  const isIvInvalid = !!modeField && CIPHER_MODES[mode].needsIv && validateIv(iv, ivLengthFor(mode, modeField.blockSize)) !== null;
 
   const handleStart = () => {
-    if (input.trim()) {
-      onStart(input.trim(), action);
+    if (!isInputMissing && !inputError && !isParamInvalid && !isKeyInvalid && !isIvInvalid) {
+      const options: ProcessOptions = hasInput ? { inputEncoding } : {};
+      activeFields.forEach((field) => {
+        if (field.type === 'outputEncoding') {
+          options.outputEncoding = outputEncoding;
+        } else if (field.type === 'key') {
+          options.key = key.replace(/\s+/g, '').toLowerCase();
+        } else if (field.type === 'cipherMode') {
+          options.mode = mode;
+          options.iv = CIPHER_MODES[mode].needsIv ? iv.replace(/\s+/g, '').toLowerCase() : undefined;
+          options.aad = CIPHER_MODES[mode].authenticated ? aad : undefined;
+          options.padding = CIPHER_MODES[mode].stream ? undefined : padding;
+        } else {
+          options.params = { ...options.params, [field.name]: params[field.name].trim() };
+        }
+      });
+      onStart(hasInput ? input.trim() : '', action, options);
     }
   };
 
-  const getActionDescription = () => {
-    switch (algorithm) {
-      case 'checksum':
-        return 'Generate checksum for error detection';
-      case 'aes':
-      case 'des':
-        return action === 'encrypt' ? 'Encrypt your message' : 'Decrypt your message';
-      default:
-        return '';
+  // Decrypting usually starts from the ciphertext an encryption produced, so
+  // switching direction swaps the input and output formats.
+  const handleActionChange = (value: Action) => {
+    if (hasOutputEncoding && (value === 'decrypt') !== (action === 'decrypt')) {
+      setInputEncoding(outputEncoding);
+      setOutputEncoding(inputEncoding);
     }
+    setAction(value);
+  };
+
+  const renderParamField = (field: FieldOf<'select'> | FieldOf<'text'>) => {
+    const id = `param-${field.name}`;
+    const error = params[field.name] ? paramError(field) : null;
+    const onChange = (value: string) => setParams((prev) => ({ ...prev, [field.name]: value }));
+    return (
+      <div key={field.name}>
+        <Label htmlFor={id}>{field.label}</Label>
+        {field.type === 'select' ? (
+          <Select value={params[field.name]} onValueChange={onChange}>
+            <SelectTrigger id={id} className="mt-2">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {field.choices.map((choice) => (
+                <SelectItem key={choice.value} value={choice.value}>{choice.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        ) : (
+          <Input
+            id={id}
+            placeholder={field.placeholder}
+            value={params[field.name]}
+            onChange={(e) => onChange(e.target.value)}
+            className="mt-2 font-mono"
+          />
+        )}
+        {error && (
+          <p className="text-sm text-red-600 mt-1">{error}</p>
+        )}
+      </div>
+    );
   };
 
   return (
@@ -57,37 +140,61 @@ const InputPanel: React.FC<InputPanelProps> = ({ algorithm, onStart, onBack }) =
         </Button>
         <div>
           <h2 className="text-2xl font-semibold text-gray-800">
-            {algorithmTitles[algorithm]}
+            {plugin.metadata.heading}
           </h2>
-          <p className="text-gray-600">{getActionDescription()}</p>
+          <p className="text-gray-600">{plugin.actions.find((choice) => choice.value === action)?.description}</p>
         </div>
       </div>
 
-      <div className="grid md:grid-cols-2 gap-6">
-        <Card>
-          <CardHeader>
-            <CardTitle className="text-lg">Input Data</CardTitle>
-            <CardDescription>
-              Enter the text you want to process
-            </CardDescription>
-          </CardHeader>
-          <CardContent className="space-y-4">
-            <div>
-              <Label htmlFor="input-text">Your Text</Label>
-              <Textarea
-                id="input-text"
-                placeholder={`Enter text for ${algorithm.toUpperCase()} processing...`}
-                value={input}
-                onChange={(e) => setInput(e.target.value)}
-                className="min-h-32 mt-2"
+      <div className={`grid gap-6 ${hasInput ? 'md:grid-cols-2' : ''}`}>
+        {hasInput && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Input Data</CardTitle>
+              <CardDescription>
+                Enter the text you want to process
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <EncodingSelect
+                id="input-encoding"
+                label="Input Format"
+                value={inputEncoding}
+                onChange={setInputEncoding}
               />
-            </div>
+
+              <div>
+                <Label htmlFor="input-text">Your Text</Label>
+                <Textarea
+                  id="input-text"
+                  placeholder={inputEncoding === 'utf8'
+                    ? `Enter text for ${algorithm.toUpperCase()} processing...`
+                    : `e.g. ${ENCODINGS[inputEncoding].placeholder}`}
+                  value={input}
+                  onChange={(e) => setInput(e.target.value)}
+                  className={`min-h-32 mt-2 ${inputEncoding === 'utf8' ? '' : 'font-mono'}`}
+                />
+                {inputError && (
+                  <p className="text-sm text-red-600 mt-1">{inputError}</p>
+                )}
+              </div>
             
-            <div className="text-sm text-gray-500">
-              Character count: {input.length}
-            </div>
-          </CardContent>
-        </Card>
+              <div className="text-sm text-gray-500">
+                Character count: {input.length}
+                {byteLength !== null && ` · Byte length: ${byteLength} bytes`}
+              </div>
+
+              {hasOutputEncoding && (
+                <EncodingSelect
+                  id="output-encoding"
+                  label="Output Format"
+                  value={outputEncoding}
+                  onChange={setOutputEncoding}
+                />
+              )}
+            </CardContent>
+          </Card>
+        )}
 
         <Card>
           <CardHeader>
@@ -97,50 +204,53 @@ const InputPanel: React.FC<InputPanelProps> = ({ algorithm, onStart, onBack }) =
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
-            {algorithm !== 'checksum' && (
+            {plugin.actions.length > 1 && (
               <div>
                 <Label className="text-base font-medium">Action</Label>
-                <RadioGroup value={action} onValueChange={(value) => setAction(value as Action)} className="mt-2">
-                  <div className="flex items-center space-x-2">
-                    <RadioGroupItem value="encrypt" id="encrypt" />
-                    <Label htmlFor="encrypt">Encrypt</Label>
-                  </div>
-                  <div className="flex items-center space-x-2">
-                    <RadioGroupItem value="decrypt" id="decrypt" />
-                    <Label htmlFor="decrypt">Decrypt</Label>
-                  </div>
-                  <div className="flex items-center space-x-2">
-                    <RadioGroupItem value="both" id="both" />
-                    <Label htmlFor="both">Both (Encrypt then Decrypt)</Label>
-                  </div>
+                <RadioGroup value={action} onValueChange={(value) => handleActionChange(value as Action)} className="mt-2">
+                  {plugin.actions.map((choice) => (
+                    <div key={choice.value} className="flex items-center space-x-2">
+                      <RadioGroupItem value={choice.value} id={choice.value} />
+                      <Label htmlFor={choice.value}>{choice.label}</Label>
+                    </div>
+                  ))}
                 </RadioGroup>
               </div>
             )}
 
+            {activeFields.map((field) => {
+              switch (field.type) {
+                case 'key':
+                  return <KeyInput key="key" algorithm={field.algorithm} value={key} onChange={setKey} />;
+                case 'cipherMode':
+                  return (
+                    <ModeSelector
+                      key="mode"
+                      blockSize={field.blockSize}
+                      mode={mode}
+                      iv={iv}
+                      aad={aad}
+                      padding={padding}
+                      onModeChange={setMode}
+                      onIvChange={setIv}
+                      onAadChange={setAad}
+                      onPaddingChange={setPadding}
+                    />
+                  );
+                case 'select':
+                case 'text':
+                  return renderParamField(field);
+                default:
+                  return null;
+              }
+            })}
+
             <div className="bg-gray-50 p-4 rounded-lg">
               <h4 className="font-medium text-gray-800 mb-2">Algorithm Info</h4>
               <div className="text-sm text-gray-600 space-y-1">
-                {algorithm === 'aes' && (
-                  <>
-                    <div>• 128-bit key (simplified)</div>
-                    <div>• 10 rounds of transformation</div>
-                    <div>• SubBytes, ShiftRows, MixColumns</div>
-                  </>
-                )}
-                {algorithm === 'des' && (
-                  <>
-                    <div>• 64-bit blocks, 56-bit key</div>
-                    <div>• 16 rounds of Feistel cipher</div>
-                    <div>• Initial and final permutation</div>
-                  </>
-                )}
-                {algorithm === 'checksum' && (
-                  <>
-                    <div>• Simple sum-based calculation</div>
-                    <div>• Detects data corruption</div>
-                    <div>• One's complement arithmetic</div>
-                  </>
-                )}
+                {plugin.highlights.map((highlight) => (
+                  <div key={highlight}>• {highlight}</div>
+                ))}
               </div>
             </div>
           </CardContent>
@@ -150,7 +260,7 @@ const InputPanel: React.FC<InputPanelProps> = ({ algorithm, onStart, onBack }) =
       <div className="flex justify-center">
         <Button 
           onClick={handleStart}
-          disabled={!input.trim()}
+          disabled={isInputMissing || !!inputError || isParamInvalid || isKeyInvalid || isIvInvalid}
           size="lg"
           className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700"
         >
@@ -1,31 +1,93 @@
 
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Copy, Download, RotateCcw, Eye, Check } from 'lucide-react';
+import { Copy, Download, RotateCcw, Eye, Check, X, AlertTriangle, Play } from 'lucide-react';
 import { useToast } from "@/hooks/use-toast";
-import { Algorithm } from './CryptoLearningTool';
+import TraceValueView from './crypto/TraceValueView';
+import ErrorInjectionPanel from './crypto/ErrorInjectionPanel';
+import { Algorithm, Action, ProcessOptions, getAlgorithm } from './algorithms';
+import { describeKeySize } from '@/lib/crypto/keys';
+import { PADDING_SCHEMES } from '@/lib/crypto/padding';
+import { ENCODINGS, Encoding, decodeText } from '@/lib/crypto/encoding';
+import { formatStep } from '@/lib/crypto/trace';
+import type { RoundTrip, Step } from '@/lib/crypto/types';
+
+const byteLengthOf = (text: string, encoding?: Encoding): number | null => {
+  if (!encoding) return null;
+  try {
+    return decodeText(text, encoding).length;
+  } catch {
+    return null;
+  }
+};
+
+/** A hex string with the bytes that differ from `other` highlighted. */
+const HexDiff: React.FC<{ hex: string; other: string }> = ({ hex, other }) => (
+  <>
+    {(hex.match(/../g) ?? []).map((pair, i) => (
+      <span key={i} className={pair !== other.slice(i * 2, i * 2 + 2) ? 'bg-amber-200 text-amber-900 rounded' : undefined}>
+        {pair}
+      </span>
+    ))}
+  </>
+);
 
 interface ResultsDisplayProps {
   algorithm: Algorithm;
+  action: Action;
+  options: ProcessOptions;
   input: string;
   result: string;
-  steps: any[];
+  roundTrip?: RoundTrip;
+  steps: Step[];
   onReset: () => void;
   onViewSteps: () => void;
+  /** Runs the same algorithm and action again on another input. */
+  onRun: (input: string, options: ProcessOptions) => void;
 }
 
 const ResultsDisplay: React.FC<ResultsDisplayProps> = ({
   algorithm,
+  action,
+  options,
   input,
   result,
+  roundTrip,
   steps,
   onReset,
-  onViewSteps
+  onViewSteps,
+  onRun
 }) => {
   const [copied, setCopied] = useState(false);
+  const plugin = getAlgorithm(algorithm);
+  const hasInput = plugin.hasInput !== false;
+  const paramSettings = plugin.options.flatMap((field) => {
+    if (field.type !== 'select' && field.type !== 'text') return [];
+    const value = options.params?.[field.name];
+    if (!value) return [];
+    const label = field.type === 'select' ? field.choices.find((choice) => choice.value === value)?.label ?? value : value;
+    return [{ name: field.label, label }];
+  });
+  // The key field names the cipher, so DES keys are described without their parity bits.
+  const keySize = plugin.options.flatMap((field) =>
+    field.type === 'key' && options.key ? [describeKeySize(field.algorithm, options.key.length / 2)] : []
+  )[0];
+  const collision = plugin.deprecated?.collision;
+  const collisionOutputs = useMemo(
+    () => collision?.inputs.map((text) => plugin.run(text, action, { ...options, inputEncoding: collision.inputEncoding }).result),
+    [plugin, collision, action, options]
+  );
+  const errorDetector = useMemo(() => plugin.errorDetector?.(options) ?? null, [plugin, options]);
+  const transmitted = useMemo(
+    () => (errorDetector ? decodeText(input, options.inputEncoding ?? 'utf8') : null),
+    [errorDetector, input, options.inputEncoding]
+  );
+  const comparison = useMemo(() => plugin.comparison?.(input, action, options) ?? null, [plugin, input, action, options]);
   const { toast } = useToast();
+  const inputBytes = byteLengthOf(input, options.inputEncoding ?? 'utf8');
+  const resultBytes = byteLengthOf(result, options.outputEncoding);
 
   const handleCopy = async () => {
     try {
@@ -49,21 +111,31 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = ({
     const content = `
 ${algorithm.toUpperCase()} Processing Results
 =====================================
-
-Original Input:
+${hasInput ? `
+Original Input${options.inputEncoding ? ` (${ENCODINGS[options.inputEncoding].name})` : ''}:
 ${input}
+` : ''}${options.key ? `
+Key (${keySize}):
+${options.key}
+` : ''}${paramSettings.map(({ name, label }) => `
+${name}: ${label}`).join('')}${options.mode ? `
+Mode: ${options.mode.toUpperCase()}${options.padding ? `
+Padding: ${PADDING_SCHEMES[options.padding].name}` : ''}${options.iv ? `
+IV: ${options.iv}` : ''}${options.aad ? `
+Associated Data: ${options.aad}` : ''}
+` : ''}
+${plugin.deprecated ? `Deprecated: ${plugin.deprecated.reason}
 
-Final Result:
+` : ''}Final Result${options.outputEncoding ? ` (${ENCODINGS[options.outputEncoding].name})` : ''}:
 ${result}
+${roundTrip ? `
+Recovered Plaintext:
+${roundTrip.recovered}
 
+Round Trip: ${roundTrip.matches ? 'MATCH' : 'MISMATCH'}
+` : ''}
 Processing Steps:
-${steps.map((step, index) => `
-Step ${index + 1}: ${step.title}
-Description: ${step.description}
-Input: ${step.input}
-Output: ${step.output}
-Explanation: ${step.explanation}
-`).join('\n')}
+${steps.map(formatStep).join('\n\n')}
 
 Generated by Cryptographic Algorithms Explorer
 `;
@@ -84,24 +156,6 @@ Generated by Cryptographic Algorithms Explorer
     });
   };
 
-  const getAlgorithmTitle = () => {
-    switch (algorithm) {
-      case 'aes': return 'AES Encryption';
-      case 'des': return 'DES Encryption';
-      case 'checksum': return 'Checksum Calculation';
-      default: return 'Cryptographic Process';
-    }
-  };
-
-  const getSuccessMessage = () => {
-    switch (algorithm) {
-      case 'aes': return 'Your message has been successfully encrypted using AES!';
-      case 'des': return 'Your message has been successfully processed with DES!';
-      case 'checksum': return 'Checksum has been successfully calculated!';
-      default: return 'Process completed successfully!';
-    }
-  };
-
   return (
     <div className="space-y-6">
       <div className="text-center">
@@ -109,36 +163,38 @@ Generated by Cryptographic Algorithms Explorer
           <Check className="w-8 h-8 text-green-600" />
         </div>
         <h2 className="text-2xl font-semibold text-gray-800 mb-2">
-          {getAlgorithmTitle()} Complete!
+          {plugin.metadata.heading} Complete!
         </h2>
         <p className="text-gray-600">
-          {getSuccessMessage()}
+          {plugin.successMessage(action)}
         </p>
       </div>
 
-      <div className="grid md:grid-cols-2 gap-6">
-        <Card>
-          <CardHeader>
-            <CardTitle className="text-lg text-gray-700">Original Input</CardTitle>
-            <CardDescription>The data you provided for processing</CardDescription>
-          </CardHeader>
-          <CardContent>
-            <div className="bg-gray-50 p-4 rounded-lg border-2 border-gray-200">
-              <div className="font-mono text-sm break-all">
-                {input}
+      <div className={`grid gap-6 ${hasInput ? 'md:grid-cols-2' : ''}`}>
+        {hasInput && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg text-gray-700">Original Input</CardTitle>
+              <CardDescription>The data you provided for processing</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="bg-gray-50 p-4 rounded-lg border-2 border-gray-200">
+                <div className="font-mono text-sm break-all">
+                  {input}
+                </div>
               </div>
-            </div>
-            <div className="mt-2 text-sm text-gray-500">
-              Length: {input.length} characters
-            </div>
-          </CardContent>
-        </Card>
+              <div className="mt-2 text-sm text-gray-500">
+                Length: {input.length} characters{inputBytes !== null && ` · ${inputBytes} bytes`}
+              </div>
+            </CardContent>
+          </Card>
+        )}
 
         <Card>
           <CardHeader>
             <CardTitle className="text-lg text-blue-700">Final Result</CardTitle>
             <CardDescription>
-              {algorithm === 'checksum' ? 'Generated checksum value' : 'Processed output'}
+              {plugin.resultDescription(action)}
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -149,7 +205,7 @@ Generated by Cryptographic Algorithms Explorer
             </div>
             <div className="flex items-center justify-between mt-4">
               <div className="text-sm text-gray-500">
-                Length: {result.length} characters
+                Length: {result.length} characters{resultBytes !== null && ` · ${resultBytes} bytes`}
               </div>
               <div className="flex gap-2">
                 <Button
@@ -167,6 +223,130 @@ Generated by Cryptographic Algorithms Explorer
         </Card>
       </div>
 
+      {plugin.deprecated && (
+        <Card className="border-amber-300">
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle className="text-lg flex items-center gap-2 text-amber-900">
+                <AlertTriangle className="w-5 h-5" />
+                Deprecated
+              </CardTitle>
+              <Badge variant="outline" className="bg-amber-50 text-amber-800">
+                Do not use for new designs
+              </Badge>
+            </div>
+            <CardDescription>{plugin.deprecated.reason}</CardDescription>
+          </CardHeader>
+          {collision && collisionOutputs && (
+            <CardContent className="space-y-4">
+              <p className="text-sm text-gray-600">{collision.description}</p>
+              <div className="grid md:grid-cols-2 gap-4">
+                {collision.inputs.map((text, index) => {
+                  const label = `Message ${index === 0 ? 'A' : 'B'}`;
+                  const isCurrent = text === input && options.inputEncoding === collision.inputEncoding;
+                  return (
+                    <div key={label} className="space-y-2">
+                      <div className="flex items-center justify-between">
+                        <div className="text-sm font-medium text-gray-700">{label}</div>
+                        {isCurrent && <Badge variant="secondary">Hashed in this run</Badge>}
+                      </div>
+                      <div className="bg-gray-50 p-3 rounded-lg border-2 border-gray-200 font-mono text-xs break-all">
+                        <HexDiff hex={text} other={collision.inputs[1 - index]} />
+                      </div>
+                      <div className="text-xs text-gray-600 font-mono break-all">
+                        Output: {collisionOutputs[index]}
+                      </div>
+                      <Button
+                        onClick={() => onRun(text, { ...options, inputEncoding: collision.inputEncoding })}
+                        variant="outline"
+                        size="sm"
+                        className="flex items-center gap-2"
+                      >
+                        <Play className="w-4 h-4" />
+                        Load {label}
+                      </Button>
+                    </div>
+                  );
+                })}
+              </div>
+              <Badge
+                variant="outline"
+                className={`flex w-fit items-center gap-1 ${
+                  collisionOutputs[0] === collisionOutputs[1] ? 'bg-red-50 text-red-700' : 'bg-green-50 text-green-700'
+                }`}
+              >
+                {collisionOutputs[0] === collisionOutputs[1] ? <AlertTriangle className="w-3 h-3" /> : <Check className="w-3 h-3" />}
+                {collisionOutputs[0] === collisionOutputs[1] ? 'Different inputs, identical outputs' : 'Outputs differ'}
+              </Badge>
+            </CardContent>
+          )}
+        </Card>
+      )}
+
+      {comparison && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">{comparison.title}</CardTitle>
+            <CardDescription>{comparison.description}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {comparison.values.map((value, index) => (
+              <TraceValueView key={index} value={value} />
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {errorDetector && transmitted && transmitted.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Error Injection</CardTitle>
+            <CardDescription>
+              Corrupt the data as a noisy channel would and see whether {errorDetector.name} notices
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ErrorInjectionPanel key={input} detector={errorDetector} data={transmitted} />
+          </CardContent>
+        </Card>
+      )}
+
+      {roundTrip && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle className="text-lg">Round Trip</CardTitle>
+              <Badge
+                variant="outline"
+                className={`flex items-center gap-1 ${roundTrip.matches ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'}`}
+              >
+                {roundTrip.matches ? <Check className="w-3 h-3" /> : <X className="w-3 h-3" />}
+                {roundTrip.matches ? 'Match' : 'Mismatch'}
+              </Badge>
+            </div>
+            <CardDescription>
+              The ciphertext was decrypted again with the same key and options
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="grid md:grid-cols-2 gap-4">
+            <div>
+              <div className="text-sm font-medium text-gray-700 mb-2">Ciphertext</div>
+              <div className="bg-blue-50 p-4 rounded-lg border-2 border-blue-200 font-mono text-sm break-all">
+                {roundTrip.ciphertext}
+              </div>
+            </div>
+            <div>
+              <div className="text-sm font-medium text-gray-700 mb-2">Recovered Plaintext</div>
+              <div className={`p-4 rounded-lg border-2 font-mono text-sm break-all ${
+                roundTrip.matches ? 'bg-green-50 border-green-200' : 'bg-red-50 border-red-200'
+              }`}>
+                {roundTrip.recovered}
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       <Card>
         <CardHeader>
           <CardTitle className="text-lg">Process Summary</CardTitle>
@@ -178,6 +358,26 @@ Generated by Cryptographic Algorithms Explorer
           <div className="flex flex-wrap gap-2">
             <Badge variant="outline">Algorithm: {algorithm.toUpperCase()}</Badge>
             <Badge variant="outline">Steps: {steps.length}</Badge>
+            {paramSettings.map(({ name, label }) => (
+              <Badge key={name} variant="outline">{name}: {label}</Badge>
+            ))}
+            {options.key && (
+              <Badge variant="outline" className="font-mono">
+                Key ({keySize}): {options.key}
+              </Badge>
+            )}
+            {options.mode && (
+              <Badge variant="outline">Mode: {options.mode.toUpperCase()}</Badge>
+            )}
+            {options.padding && (
+              <Badge variant="outline">Padding: {PADDING_SCHEMES[options.padding].name}</Badge>
+            )}
+            {options.iv && (
+              <Badge variant="outline" className="font-mono">IV: {options.iv}</Badge>
+            )}
+            {options.aad && (
+              <Badge variant="outline">AAD: {options.aad}</Badge>
+            )}
             <Badge variant="outline" className="bg-green-50 text-green-700">
               Status: Completed
             </Badge>
@@ -186,30 +386,9 @@ Generated by Cryptographic Algorithms Explorer
           <div className="bg-gray-50 p-4 rounded-lg">
             <h4 className="font-medium text-gray-800 mb-2">Key Learning Points:</h4>
             <ul className="text-sm text-gray-600 space-y-1">
-              {algorithm === 'checksum' && (
-                <>
-                  <li>• Checksum provides basic error detection capability</li>
-                  <li>• Data is processed in fixed-size chunks</li>
-                  <li>• One's complement arithmetic is used for final calculation</li>
-                  <li>• Simple but effective for detecting transmission errors</li>
-                </>
-              )}
-              {algorithm === 'des' && (
-                <>
-                  <li>• DES uses 16 rounds of Feistel cipher structure</li>
-                  <li>• Initial and final permutations provide additional security</li>
-                  <li>• Each round uses a different subkey derived from the main key</li>
-                  <li>• Now considered insecure due to 56-bit key length</li>
-                </>
-              )}
-              {algorithm === 'aes' && (
-                <>
-                  <li>• AES uses substitution-permutation network structure</li>
-                  <li>• Four main operations: SubBytes, ShiftRows, MixColumns, AddRoundKey</li>
-                  <li>• Number of rounds depends on key size (10, 12, or 14 rounds)</li>
-                  <li>• Currently the standard for symmetric encryption worldwide</li>
-                </>
-              )}
+              {plugin.learningPoints.map((point) => (
+                <li key={point}>• {point}</li>
+              ))}
             </ul>
           </div>
         </CardContent>
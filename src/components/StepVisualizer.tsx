@@ -2,54 +2,34 @@ import React, { useState, useEffect } from 'react';
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
+import { Badge } from "@/components/ui/badge";
 import { ChevronLeft, ChevronRight, Play, Pause, RotateCcw } from 'lucide-react';
-import { ArrowDown, afterMixColumnsMatrix } from './crypto/StepVisualizerHelper';
-import type { Algorithm, Action } from './CryptoLearningTool';
+import { ArrowDown } from './crypto/StepVisualizerHelper';
+import StepBody from './crypto/StepBody';
+import PhaseOutline from './crypto/PhaseOutline';
+import { TraceReplay, useTraceWorker } from '@/hooks/use-trace-worker';
+import { Algorithm, Action, ProcessOptions, getAlgorithm } from './algorithms';
+import type { RoundTrip, Step } from '@/lib/crypto/types';
 
 interface StepVisualizerProps {
   algorithm: Algorithm;
   input: string;
   action: Action;
-  onComplete: (steps: any[], result: string) => void;
+  options: ProcessOptions;
+  onComplete: (steps: Step[], result: string, roundTrip?: RoundTrip) => void;
+  onError: (error: Error) => void;
   onBack: () => void;
+  /** A finished trace to show again instead of rerunning the engine. */
+  replay?: TraceReplay;
 }
 
-interface Step {
-  title: string;
-  description: string | React.ReactNode;
-  matrix?: number[][];
-  result?: string;
-}
-
-const StepVisualizer: React.FC<StepVisualizerProps> = ({ algorithm, input, action, onComplete, onBack }) => {
+const StepVisualizer: React.FC<StepVisualizerProps> = ({ algorithm, input, action, options, onComplete, onError, onBack, replay }) => {
   const [currentStep, setCurrentStep] = useState(0);
-  const [steps, setSteps] = useState<Step[]>([]);
   const [isPlaying, setIsPlaying] = useState(false);
   const [intervalId, setIntervalId] = useState<number | null>(null);
-  const [result, setResult] = useState<string>('');
+  const StepRenderer = getAlgorithm(algorithm).renderStep ?? StepBody;
 
-  useEffect(() => {
-    const processData = async () => {
-      if (algorithm === 'aes') {
-        const aesSteps = await runAES(input, action);
-        setSteps(aesSteps.steps);
-        setResult(aesSteps.result);
-        onComplete(aesSteps.steps, aesSteps.result);
-      } else if (algorithm === 'des') {
-        const desSteps = await runDES(input, action);
-        setSteps(desSteps.steps);
-        setResult(desSteps.result);
-        onComplete(desSteps.steps, desSteps.result);
-      } else if (algorithm === 'checksum') {
-        const checksumSteps = await runChecksum(input, action);
-        setSteps(checksumSteps.steps);
-        setResult(checksumSteps.result);
-        onComplete(checksumSteps.steps, checksumSteps.result);
-      }
-    };
-
-    processData();
-  }, [algorithm, input, action, onComplete]);
+  const { steps, result, roundTrip, progress, isRunning, cancel } = useTraceWorker(algorithm, input, action, options, onError, replay);
 
   useEffect(() => {
     if (isPlaying) {
@@ -86,43 +66,26 @@ const StepVisualizer: React.FC<StepVisualizerProps> = ({ algorithm, input, actio
     setIsPlaying(false);
   };
 
-  // Mock implementations for the algorithms
-  const runAES = async (input: string, action: Action) => {
-    await new Promise(resolve => setTimeout(resolve, 500));
-    const mockSteps = [
-      { title: 'Initial Round', description: 'Starting the AES encryption process...' },
-      { title: 'Add Round Key', description: 'Adding the round key to the state.' },
-      { title: 'Sub Bytes', description: 'Performing byte substitution.' },
-      { title: 'Shift Rows', description: 'Shifting the rows of the state.' },
-      { title: 'Mix Columns', description: 'Mixing the columns of the state.' },
-      { title: 'Final Round', description: 'Completing the final round of AES.' },
-    ];
-    return { steps: mockSteps, result: 'AES Encrypted Result' };
-  };
-
-  const runDES = async (input: string, action: Action) => {
-    await new Promise(resolve => setTimeout(resolve, 500));
-    const mockSteps = [
-      { title: 'Initial Permutation', description: 'Rearranging the bits of the input.' },
-      { title: 'Round 1', description: 'Performing the first round of DES.' },
-      { title: 'Round 2', description: 'Performing the second round of DES.' },
-      { title: 'Final Permutation', description: 'Rearranging the bits to produce the output.' },
-    ];
-    return { steps: mockSteps, result: 'DES Encrypted Result' };
-  };
-
-  const runChecksum = async (input: string, action: Action) => {
-    await new Promise(resolve => setTimeout(resolve, 500));
-    const mockSteps = [
-      { title: 'Initial State', description: 'Starting checksum calculation...' },
-      { title: 'Processing Data', description: 'Calculating checksum...' },
-      { title: 'Final Checksum', description: 'Final checksum value.' },
-    ];
-    return { steps: mockSteps, result: 'Checksum Result' };
+  const handleCancel = () => {
+    cancel();
+    onBack();
   };
 
   if (steps.length === 0) {
-    return <div>Loading...</div>;
+    return (
+      <Card className="w-full">
+        <CardHeader>
+          <CardTitle>Generating Steps...</CardTitle>
+        </CardHeader>
+        <CardContent className="grid gap-4">
+          <Progress value={progress * 100} />
+          <Button variant="outline" onClick={handleCancel} className="justify-self-start">
+            <ChevronLeft className="h-4 w-4" />
+            <span>Cancel</span>
+          </Button>
+        </CardContent>
+      </Card>
+    );
   }
 
   return (
@@ -131,26 +94,39 @@ const StepVisualizer: React.FC<StepVisualizerProps> = ({ algorithm, input, actio
         <CardTitle>Step-by-Step Visualization</CardTitle>
       </CardHeader>
       <CardContent className="grid gap-4">
+        <PhaseOutline steps={steps} currentStep={currentStep} onSelect={setCurrentStep} />
         <div className="mb-4">
+          {steps[currentStep].phase && (
+            <Badge
+              variant="outline"
+              className={`mb-2 ${steps[currentStep].phase === 'encrypt' ? 'bg-blue-50 text-blue-700' : 'bg-emerald-50 text-emerald-700'}`}
+            >
+              {steps[currentStep].phase === 'encrypt' ? 'Phase 1: Encryption' : 'Phase 2: Decryption'}
+            </Badge>
+          )}
           <h2 className="text-xl font-semibold">{steps[currentStep].title}</h2>
           <p>{steps[currentStep].description}</p>
-          {steps[currentStep].matrix && (
-            <div className="mt-4">
-              <p>Matrix:</p>
-              <pre>{JSON.stringify(steps[currentStep].matrix, null, 2)}</pre>
-            </div>
-          )}
+          <StepRenderer step={steps[currentStep]} history={steps.slice(0, currentStep + 1)} />
           {steps[currentStep].result && (
             <div className="mt-4">
-              <p>Result: {steps[currentStep].result}</p>
+              <p className="font-mono break-all">Result: {steps[currentStep].result}</p>
             </div>
           )}
         </div>
 
-        <Progress value={(currentStep / (steps.length - 1)) * 100} className="mb-4" />
+        {isRunning ? (
+          <div className="mb-4 space-y-1">
+            <Progress value={progress * 100} />
+            <p className="text-sm text-gray-500">
+              Generating steps: {Math.round(progress * 100)}% ({steps.length} so far)
+            </p>
+          </div>
+        ) : (
+          <Progress value={(currentStep / (steps.length - 1)) * 100} className="mb-4" />
+        )}
 
         <div className="flex justify-between items-center">
-          <Button variant="outline" size="icon" onClick={onBack}>
+          <Button variant="outline" size="icon" onClick={handleCancel}>
             <ChevronLeft className="h-4 w-4" />
             <span>Back</span>
           </Button>
@@ -163,10 +139,16 @@ const StepVisualizer: React.FC<StepVisualizerProps> = ({ algorithm, input, actio
               {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
               <span>{isPlaying ? 'Pause' : 'Play'}</span>
             </Button>
-            <Button variant="outline" size="icon" onClick={handleNext} disabled={currentStep === steps.length - 1}>
-              <ChevronRight className="h-4 w-4" />
-              <span>Next</span>
-            </Button>
+            {currentStep === steps.length - 1 && !isRunning ? (
+              <Button onClick={() => onComplete(steps, result, roundTrip)}>
+                View Results
+              </Button>
+            ) : (
+              <Button variant="outline" size="icon" onClick={handleNext} disabled={currentStep === steps.length - 1}>
+                <ChevronRight className="h-4 w-4" />
+                <span>Next</span>
+              </Button>
+            )}
           </div>
         </div>
       </CardContent>
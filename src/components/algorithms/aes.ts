@@ -0,0 +1,48 @@
+import { Shield } from 'lucide-react';
+import { AES_BLOCK_SIZE, DEFAULT_AES_KEY } from '@/lib/crypto/aes';
+import { toHex } from '@/lib/crypto/bytes';
+import { RoundStepBody } from '../crypto/StepBody';
+import { cipherActions, cipherSuccessMessage } from './cipher';
+import { engines } from './engines';
+import type { AlgorithmPlugin } from './types';
+
+const aes: AlgorithmPlugin = {
+  metadata: {
+    title: 'AES (Advanced Encryption Standard)',
+    heading: 'AES Encryption',
+    description: 'Modern symmetric encryption with 128, 192, or 256-bit keys',
+    icon: Shield,
+    steps: 'AddRoundKey → SubBytes → ShiftRows → MixColumns',
+    complexity: 'Advanced'
+  },
+  theme: {
+    icon: 'bg-blue-500',
+    gradient: 'from-blue-50 to-indigo-100',
+    heading: 'text-blue-800',
+    border: 'border-blue-500'
+  },
+  actions: cipherActions,
+  options: [
+    { type: 'outputEncoding' },
+    { type: 'key', algorithm: 'aes', defaultKey: toHex(DEFAULT_AES_KEY) },
+    { type: 'cipherMode', blockSize: AES_BLOCK_SIZE }
+  ],
+  exampleInput: 'Hello, this is a secret message!',
+  highlights: [
+    '128, 192 or 256-bit key',
+    '10, 12 or 14 rounds of transformation',
+    'SubBytes, ShiftRows, MixColumns'
+  ],
+  learningPoints: [
+    'AES uses substitution-permutation network structure',
+    'Four main operations: SubBytes, ShiftRows, MixColumns, AddRoundKey',
+    'Number of rounds depends on key size (10, 12, or 14 rounds)',
+    'Currently the standard for symmetric encryption worldwide'
+  ],
+  run: engines.aes,
+  successMessage: cipherSuccessMessage('AES'),
+  resultDescription: () => 'Processed output',
+  renderStep: RoundStepBody
+};
+
+export default aes;
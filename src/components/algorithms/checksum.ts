@@ -0,0 +1,165 @@
+import { Calculator } from 'lucide-react';
+import { utf8ToBytes } from '@/lib/crypto/bytes';
+import { CRC_PRESETS, CrcPresetId } from '@/lib/crypto/crc';
+import { ERROR_DETECTORS, compareDetectors, crcDetector } from '@/lib/crypto/detection';
+import { decodeText } from '@/lib/crypto/encoding';
+import { luhnCheckDigit, parseDigits } from '@/lib/crypto/luhn';
+import { checksumMethod, crcParameters, engines, isCrc, isCustomCrc, isFletcher } from './engines';
+import type { AlgorithmPlugin } from './types';
+
+const hexWord = (value: string): string | null =>
+  /^(0x)?[0-9a-f]{1,8}$/i.test(value) ? null : 'Enter 1 to 8 hexadecimal digits';
+
+const booleanChoices = [
+  { value: 'false', label: 'false' },
+  { value: 'true', label: 'true' }
+];
+
+const checksum: AlgorithmPlugin = {
+  metadata: {
+    title: 'Checksum Algorithm',
+    heading: 'Checksum Calculation',
+    description: 'Error detection with sums, Fletcher and Adler checksums, CRCs and the Luhn check digit',
+    icon: Calculator,
+    steps: 'Block Division → Running Sums or Polynomial Division → Checksum Generation',
+    complexity: 'Beginner'
+  },
+  theme: {
+    icon: 'bg-purple-500',
+    gradient: 'from-amber-50 to-yellow-100',
+    heading: 'text-amber-800',
+    border: 'border-amber-500'
+  },
+  actions: [
+    { value: 'generate', label: 'Generate checksum', description: 'Generate checksum for error detection' },
+    { value: 'verify', label: 'Verify checksum', description: 'Verify data against a received checksum' }
+  ],
+  options: [
+    {
+      type: 'select',
+      name: 'method',
+      label: 'Variant',
+      choices: [
+        { value: 'internet', label: "Internet checksum (one's complement sum)" },
+        { value: 'fletcher16', label: 'Fletcher-16 (two sums of bytes)' },
+        { value: 'fletcher32', label: 'Fletcher-32 (two sums of 16-bit words)' },
+        { value: 'adler32', label: 'Adler-32 (zlib)' },
+        { value: 'crc', label: 'CRC (polynomial division)' },
+        { value: 'luhn', label: 'Luhn (credit-card check digit, digits only)' }
+      ],
+      defaultValue: 'internet'
+    },
+    {
+      type: 'select',
+      name: 'crcPreset',
+      label: 'CRC parameters',
+      choices: [
+        ...(Object.keys(CRC_PRESETS) as CrcPresetId[]).map((id) => ({ value: id, label: CRC_PRESETS[id].name })),
+        { value: 'custom', label: 'Custom' }
+      ],
+      defaultValue: 'crc32',
+      visible: isCrc
+    },
+    {
+      type: 'text',
+      name: 'crcWidth',
+      label: 'Width (bits)',
+      placeholder: 'e.g. 16',
+      defaultValue: '16',
+      visible: isCustomCrc,
+      validate: (value) => /^\d+$/.test(value) && Number(value) >= 8 && Number(value) <= 32 ? null : 'Enter a width from 8 to 32'
+    },
+    { type: 'text', name: 'crcPoly', label: 'Poly (hex)', placeholder: 'e.g. 1021', defaultValue: '8005', visible: isCustomCrc, validate: hexWord },
+    { type: 'text', name: 'crcInit', label: 'Init (hex)', placeholder: 'e.g. ffff', defaultValue: '0', visible: isCustomCrc, validate: hexWord },
+    { type: 'select', name: 'crcRefin', label: 'RefIn', choices: booleanChoices, defaultValue: 'true', visible: isCustomCrc },
+    { type: 'select', name: 'crcRefout', label: 'RefOut', choices: booleanChoices, defaultValue: 'true', visible: isCustomCrc },
+    { type: 'text', name: 'crcXorout', label: 'XorOut (hex)', placeholder: 'e.g. 0', defaultValue: '0', visible: isCustomCrc, validate: hexWord },
+    {
+      type: 'select',
+      name: 'crcImplementation',
+      label: 'Implementation',
+      choices: [
+        { value: 'bitwise', label: 'Bit by bit (long division)' },
+        { value: 'table', label: 'Table-driven (byte at a time)' }
+      ],
+      defaultValue: 'bitwise',
+      visible: isCrc
+    },
+    {
+      type: 'text',
+      name: 'expectedChecksum',
+      label: 'Received Checksum (hex)',
+      placeholder: 'e.g. 98af',
+      actions: ['verify'],
+      visible: (params) => checksumMethod(params) === 'internet',
+      validate: (value) => /^(0x)?[0-9a-f]{4}$/i.test(value) ? null : 'Enter exactly 4 hexadecimal digits'
+    },
+    {
+      type: 'text',
+      name: 'expectedSum',
+      label: 'Received Checksum (hex)',
+      placeholder: 'e.g. 11e60398',
+      actions: ['verify'],
+      visible: isFletcher,
+      validate: (value) => /^(0x)?[0-9a-f]{4}([0-9a-f]{4})?$/i.test(value) ? null : 'Enter 4 or 8 hexadecimal digits'
+    },
+    {
+      type: 'text',
+      name: 'expectedCrc',
+      label: 'Received CRC (hex)',
+      placeholder: 'e.g. cbf43926',
+      actions: ['verify'],
+      visible: isCrc,
+      validate: hexWord
+    }
+  ],
+  exampleInput: 'This is sample data for checksum calculation.',
+  highlights: [
+    "One's complement sums, Fletcher, Adler-32, CRCs and Luhn",
+    'Detects data corruption',
+    'Compares which errors each variant catches',
+    'Inject bit flips, swaps and bursts by hand or sweep random ones',
+    'CRC presets with "123456789" check values'
+  ],
+  learningPoints: [
+    'Checksum provides basic error detection capability',
+    'Data is processed in fixed-size chunks',
+    "The Internet checksum uses one's complement arithmetic; a CRC is the remainder of polynomial division over GF(2)",
+    'A CRC of width n detects every burst error up to n bits long, which simple sums cannot',
+    'Fletcher and Adler-32 keep a second sum of the running sums, so each byte counts as many times as there are bytes after it and reordering is noticed',
+    'Luhn doubles every second digit, catching every mistyped digit and almost every swap of neighbouring digits'
+  ],
+  comparison: (input, action, options) => {
+    const params = options.params ?? {};
+    const method = checksumMethod(params);
+    let data: Uint8Array;
+    if (method === 'luhn') {
+      // Generating scores the full number the check digit protects, not the payload alone.
+      const digits = parseDigits(input) ?? [];
+      data = utf8ToBytes((action === 'verify' ? digits : [...digits, luhnCheckDigit(digits)]).join(''));
+    } else {
+      data = decodeText(input, options.inputEncoding ?? 'utf8');
+    }
+    return {
+      title: 'Error Detection by Variant',
+      description: 'Each check applied to this input, corrupted in every possible single place and by every swap of neighbours',
+      values: compareDetectors(data, method === 'crc' ? params.crcPreset ?? 'crc32' : method)
+    };
+  },
+  errorDetector: (options) => {
+    const params = options.params ?? {};
+    if (isCustomCrc(params)) return crcDetector('custom', crcParameters(params));
+    const id = isCrc(params) ? params.crcPreset ?? 'crc32' : checksumMethod(params);
+    // Luhn's errors are mistyped digits rather than flipped bits, so it has no playground.
+    return ERROR_DETECTORS.find((detector) => detector.id === id && detector.alphabet === 'bytes') ?? null;
+  },
+  run: engines.checksum,
+  successMessage: (action) => action === 'verify'
+    ? 'Checksum verification has been completed!'
+    : 'Checksum has been successfully calculated!',
+  resultDescription: (action) => action === 'verify'
+    ? 'Verification result for the received checksum'
+    : 'Generated checksum value'
+};
+
+export default checksum;
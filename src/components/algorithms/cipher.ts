@@ -0,0 +1,41 @@
+import { fromHex, utf8ToBytes } from '@/lib/crypto/bytes';
+import { BlockCipherOptions, CipherRunner, runRoundTrip } from '@/lib/crypto/modes';
+import type { EngineResult, Step } from '@/lib/crypto/types';
+import type { Action, ActionChoice, ProcessOptions } from './types';
+
+export const cipherActions: ActionChoice[] = [
+  { value: 'encrypt', label: 'Encrypt', description: 'Encrypt your message' },
+  { value: 'decrypt', label: 'Decrypt', description: 'Decrypt your message' },
+  { value: 'both', label: 'Both (Encrypt then Decrypt)', description: 'Encrypt your message, then decrypt it to prove the round trip' }
+];
+
+/** The toast shown when a block cipher run finishes, worded for the action that ran. */
+export const cipherSuccessMessage = (name: string) => (action: Action): string => {
+  if (action === 'decrypt') return `Your message has been successfully decrypted using ${name}!`;
+  if (action === 'both') return `Your message has been encrypted and decrypted back using ${name}!`;
+  return `Your message has been successfully encrypted using ${name}!`;
+};
+
+export const cipherOptions = (options: ProcessOptions): BlockCipherOptions => ({
+  key: options.key ? fromHex(options.key) : undefined,
+  mode: options.mode,
+  iv: options.iv ? fromHex(options.iv) : undefined,
+  aad: options.aad ? utf8ToBytes(options.aad) : undefined,
+  padding: options.padding,
+  inputEncoding: options.inputEncoding,
+  outputEncoding: options.outputEncoding
+});
+
+/** Runs a block cipher engine for one of the cipher actions. */
+export const runCipher = (
+  run: CipherRunner,
+  input: string,
+  action: Action,
+  options: ProcessOptions,
+  steps?: Step[]
+): EngineResult => {
+  if (action === 'both') {
+    return runRoundTrip(run, input, cipherOptions(options), steps);
+  }
+  return run(input, action === 'decrypt' ? 'decrypt' : 'encrypt', cipherOptions(options), steps);
+};
@@ -0,0 +1,29 @@
+import { parseBigInt } from '@/lib/crypto/bigint';
+import { CURVES, Curve, CurveId } from '@/lib/crypto/ecc';
+import type { OptionField, ProcessOptions } from './types';
+
+/** The curve choice shared by the elliptic-curve algorithms. */
+export const curveOption: OptionField = {
+  type: 'select',
+  name: 'curve',
+  label: 'Curve',
+  choices: (Object.keys(CURVES) as CurveId[]).map((id) => ({ value: id, label: CURVES[id].name })),
+  defaultValue: 'tiny17'
+};
+
+/** An optional integer such as a private key, drawn at random when left empty. */
+export const scalarOption = (name: string, label: string): OptionField => ({
+  type: 'text',
+  name,
+  label,
+  placeholder: 'Random if empty',
+  validate: (value) => !value || parseBigInt(value) !== null ? null : 'Enter a decimal or 0x-prefixed hex integer'
+});
+
+export const selectedCurve = (options: ProcessOptions): Curve =>
+  CURVES[(options.params?.curve as CurveId | undefined) ?? 'tiny17'];
+
+export const scalarParam = (options: ProcessOptions, name: string): bigint | undefined => {
+  const value = options.params?.[name];
+  return value ? parseBigInt(value) ?? undefined : undefined;
+};
@@ -0,0 +1,48 @@
+import { Lock } from 'lucide-react';
+import { DEFAULT_DES_KEY, DES_BLOCK_SIZE } from '@/lib/crypto/des';
+import { toHex } from '@/lib/crypto/bytes';
+import { RoundStepBody } from '../crypto/StepBody';
+import { cipherActions, cipherSuccessMessage } from './cipher';
+import { engines } from './engines';
+import type { AlgorithmPlugin } from './types';
+
+const des: AlgorithmPlugin = {
+  metadata: {
+    title: 'DES (Data Encryption Standard)',
+    heading: 'DES Encryption',
+    description: 'Classic symmetric encryption with 56-bit key and 16 rounds',
+    icon: Lock,
+    steps: 'Initial Permutation → 16 Rounds → Final Permutation',
+    complexity: 'Intermediate'
+  },
+  theme: {
+    icon: 'bg-green-500',
+    gradient: 'from-emerald-50 to-teal-100',
+    heading: 'text-emerald-800',
+    border: 'border-emerald-500'
+  },
+  actions: cipherActions,
+  options: [
+    { type: 'outputEncoding' },
+    { type: 'key', algorithm: 'des', defaultKey: toHex(DEFAULT_DES_KEY) },
+    { type: 'cipherMode', blockSize: DES_BLOCK_SIZE }
+  ],
+  exampleInput: 'Secret123',
+  highlights: [
+    '64-bit blocks, 56-bit key',
+    '16 rounds of Feistel cipher',
+    'Initial and final permutation'
+  ],
+  learningPoints: [
+    'DES uses 16 rounds of Feistel cipher structure',
+    'Initial and final permutations provide additional security',
+    'Each round uses a different subkey derived from the main key',
+    'Now considered insecure due to 56-bit key length; Triple DES was the stopgap fix'
+  ],
+  run: engines.des,
+  successMessage: cipherSuccessMessage('DES'),
+  resultDescription: () => 'Processed output',
+  renderStep: RoundStepBody
+};
+
+export default des;
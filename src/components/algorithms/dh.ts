@@ -0,0 +1,66 @@
+import { Network } from 'lucide-react';
+import { parseBigInt } from '@/lib/crypto/bigint';
+import { DH_GROUPS, DhGroupId } from '@/lib/crypto/dh';
+import DhSequence from '../crypto/DhSequence';
+import { engines, isCustomGroup } from './engines';
+import type { AlgorithmPlugin } from './types';
+
+const integer = (required: boolean) => (value: string): string | null => {
+  if (!value) return required ? 'Enter a value' : null;
+  return parseBigInt(value) === null ? 'Enter a decimal or 0x-prefixed hex integer' : null;
+};
+
+const dh: AlgorithmPlugin = {
+  metadata: {
+    title: 'Diffie-Hellman Key Exchange',
+    heading: 'Diffie-Hellman Key Exchange',
+    description: 'Method for securely exchanging cryptographic keys',
+    icon: Network,
+    steps: 'Parameter Setup → Key Exchange → Shared Secret',
+    complexity: 'Advanced'
+  },
+  theme: {
+    icon: 'bg-orange-500',
+    gradient: 'from-orange-50 to-amber-100',
+    heading: 'text-orange-800',
+    border: 'border-orange-500'
+  },
+  actions: [
+    { value: 'generate', label: 'Run key exchange', description: 'Agree on a shared secret over an open channel' }
+  ],
+  options: [
+    {
+      type: 'select',
+      name: 'group',
+      label: 'Group (p, g)',
+      choices: [
+        ...(Object.keys(DH_GROUPS) as DhGroupId[]).map((id) => ({ value: id, label: DH_GROUPS[id].name })),
+        { value: 'custom', label: 'Custom p and g' }
+      ],
+      defaultValue: 'toy23'
+    },
+    { type: 'text', name: 'p', label: 'Prime p', placeholder: 'e.g. 23', visible: isCustomGroup, validate: integer(true) },
+    { type: 'text', name: 'g', label: 'Generator g', placeholder: 'e.g. 5', visible: isCustomGroup, validate: integer(true) },
+    { type: 'text', name: 'alicePrivate', label: "Alice's private key a", placeholder: 'Random if empty', validate: integer(false) },
+    { type: 'text', name: 'bobPrivate', label: "Bob's private key b", placeholder: 'Random if empty', validate: integer(false) }
+  ],
+  exampleInput: '',
+  hasInput: false,
+  highlights: [
+    'Security rests on the discrete logarithm problem',
+    'Only public values cross the wire',
+    'Both sides compute g^(ab) mod p'
+  ],
+  learningPoints: [
+    'Alice and Bob agree on a secret without ever sending it',
+    'An eavesdropper sees p, g, A and B but must solve a discrete logarithm to get a or b',
+    'Tiny groups fall to baby-step giant-step; standard groups are 2048 bits or more',
+    'Unauthenticated Diffie-Hellman is open to man-in-the-middle attacks'
+  ],
+  run: engines.dh,
+  successMessage: () => 'Alice and Bob have agreed on a shared secret using Diffie-Hellman!',
+  resultDescription: () => 'The shared secret g^(ab) mod p both parties computed',
+  renderStep: DhSequence
+};
+
+export default dh;
@@ -0,0 +1,43 @@
+import { Zap } from 'lucide-react';
+import { curveOption, scalarOption } from './curve';
+import { engines } from './engines';
+import type { AlgorithmPlugin } from './types';
+
+const ecc: AlgorithmPlugin = {
+  metadata: {
+    title: 'Elliptic Curve Cryptography',
+    heading: 'Elliptic Curve Cryptography',
+    description: 'Public key cryptography based on elliptic curve mathematics',
+    icon: Zap,
+    steps: 'Curve Selection → Point Operations → Key Generation',
+    complexity: 'Expert'
+  },
+  theme: {
+    icon: 'bg-indigo-500',
+    gradient: 'from-indigo-50 to-violet-100',
+    heading: 'text-indigo-800',
+    border: 'border-indigo-500'
+  },
+  actions: [
+    { value: 'generate', label: 'Generate key pair', description: 'Compute a public key Q = d·G by double-and-add' }
+  ],
+  options: [curveOption, scalarOption('privateKey', 'Private key d')],
+  exampleInput: '',
+  hasInput: false,
+  highlights: [
+    'Points form a group under chord-and-tangent addition',
+    'Double-and-add computes d·G in about 1.5 log₂ d steps',
+    '256-bit curves match 3072-bit RSA security'
+  ],
+  learningPoints: [
+    'Adding two points draws a line through them and reflects the third intersection',
+    'Doubling uses the tangent line, so its slope involves the curve coefficient a',
+    'Every further bit of the scalar costs a doubling, and each 1 bit an addition',
+    'Recovering d from Q = d·G is the elliptic-curve discrete logarithm problem'
+  ],
+  run: engines.ecc,
+  successMessage: () => 'Your elliptic-curve key pair has been generated!',
+  resultDescription: () => 'The public key Q = d·G (uncompressed SEC 1 form on standard curves)'
+};
+
+export default ecc;
@@ -0,0 +1,45 @@
+import { Handshake } from 'lucide-react';
+import DhSequence from '../crypto/DhSequence';
+import { curveOption, scalarOption } from './curve';
+import { engines } from './engines';
+import type { AlgorithmPlugin } from './types';
+
+const ecdh: AlgorithmPlugin = {
+  metadata: {
+    title: 'Elliptic Curve Diffie-Hellman',
+    heading: 'ECDH Key Agreement',
+    description: 'Diffie-Hellman key exchange using elliptic curve point multiplication',
+    icon: Handshake,
+    steps: 'Curve Selection → Public Points → Shared Point',
+    complexity: 'Expert'
+  },
+  theme: {
+    icon: 'bg-cyan-500',
+    gradient: 'from-cyan-50 to-sky-100',
+    heading: 'text-cyan-800',
+    border: 'border-cyan-500'
+  },
+  actions: [
+    { value: 'generate', label: 'Run key agreement', description: 'Agree on a shared point over an open channel' }
+  ],
+  options: [curveOption, scalarOption('alicePrivate', "Alice's private key a"), scalarOption('bobPrivate', "Bob's private key b")],
+  exampleInput: '',
+  hasInput: false,
+  highlights: [
+    'Scalar multiplication replaces exponentiation',
+    'Only curve points cross the wire',
+    'Both sides reach ab·G'
+  ],
+  learningPoints: [
+    'ECDH is Diffie-Hellman in the group of curve points',
+    'The shared secret is the x-coordinate of ab·G',
+    'A 256-bit curve offers about 128-bit security, like 3072-bit finite-field Diffie-Hellman',
+    'Like classic Diffie-Hellman, ECDH needs authentication against man-in-the-middle attacks'
+  ],
+  run: engines.ecdh,
+  successMessage: () => 'Alice and Bob have agreed on a shared point using ECDH!',
+  resultDescription: () => 'The x-coordinate of the shared point ab·G',
+  renderStep: DhSequence
+};
+
+export default ecdh;
@@ -0,0 +1,57 @@
+import { PenTool } from 'lucide-react';
+import { curveOption } from './curve';
+import { engines } from './engines';
+import type { AlgorithmPlugin } from './types';
+
+const ecdsa: AlgorithmPlugin = {
+  metadata: {
+    title: 'Elliptic Curve Digital Signatures',
+    heading: 'ECDSA Signatures',
+    description: 'Signing and verifying messages with elliptic curve keys',
+    icon: PenTool,
+    steps: 'Hash → Nonce and Signature → Verification',
+    complexity: 'Expert'
+  },
+  theme: {
+    icon: 'bg-fuchsia-500',
+    gradient: 'from-fuchsia-50 to-pink-100',
+    heading: 'text-fuchsia-800',
+    border: 'border-fuchsia-500'
+  },
+  actions: [
+    { value: 'sign', label: 'Sign then Verify', description: 'Sign your message with a fresh nonce and verify the signature' },
+    { value: 'attack', label: 'Nonce reuse attack', description: 'Sign two messages with the same nonce and recover the private key' }
+  ],
+  options: [
+    curveOption,
+    {
+      type: 'text',
+      name: 'secondMessage',
+      label: 'Second message',
+      defaultValue: 'Send 100 coins to Eve',
+      actions: ['attack'],
+      validate: (value) => value ? null : 'Enter a second message'
+    }
+  ],
+  exampleInput: 'Send 5 coins to Bob',
+  highlights: [
+    'Signature (r, s) from a one-time nonce k',
+    'Verification needs only the public key',
+    'Messages are hashed with SHA-256'
+  ],
+  learningPoints: [
+    'r is the x-coordinate of k·G and s = k⁻¹(e + r·d) mod n',
+    'Verification rebuilds k·G as u₁·G + u₂·Q without knowing k or d',
+    'Two signatures with the same nonce reveal k and then the private key',
+    'RFC 6979 makes nonces deterministic so a weak random generator cannot leak the key'
+  ],
+  run: engines.ecdsa,
+  successMessage: (action) => action === 'attack'
+    ? 'The reused nonce gave away the private key!'
+    : 'Your message has been signed and the signature verified with ECDSA!',
+  resultDescription: (action) => action === 'attack'
+    ? 'The private key recovered from two signatures'
+    : 'Signature (r, s) and verification outcome'
+};
+
+export default ecdsa;
@@ -0,0 +1,186 @@
+import { runAes } from '@/lib/crypto/aes';
+import { parseBigInt } from '@/lib/crypto/bigint';
+import { fromHex } from '@/lib/crypto/bytes';
+import { runChecksum } from '@/lib/crypto/checksum';
+import { CRC_PRESETS, CrcImplementation, CrcParameters, CrcPresetId, runCrc } from '@/lib/crypto/crc';
+import { runDes } from '@/lib/crypto/des';
+import { DH_GROUPS, DhGroupId, runDh } from '@/lib/crypto/dh';
+import { runEcc } from '@/lib/crypto/ecc';
+import { runEcdh } from '@/lib/crypto/ecdh';
+import { runEcdsa } from '@/lib/crypto/ecdsa';
+import { FLETCHER_VARIANTS, FletcherVariant, runFletcher } from '@/lib/crypto/fletcher';
+import { HammingCode, runHamming } from '@/lib/crypto/hamming';
+import { runHmac } from '@/lib/crypto/hmac';
+import { Sha3Variant, runSha3 } from '@/lib/crypto/keccak';
+import { runLuhn } from '@/lib/crypto/luhn';
+import { runMd5 } from '@/lib/crypto/md5';
+import { RsaKeySize, runRsa } from '@/lib/crypto/rsa';
+import { runSha1 } from '@/lib/crypto/sha1';
+import { runSha256 } from '@/lib/crypto/sha256';
+import { runTdes } from '@/lib/crypto/tdes';
+import { runCipher } from './cipher';
+import { scalarParam, selectedCurve } from './curve';
+import type { AlgorithmPlugin } from './types';
+
+export type AlgorithmEngine = AlgorithmPlugin['run'];
+
+export const checksumMethod = (params: Record<string, string>) => params.method ?? 'internet';
+
+export const isCrc = (params: Record<string, string>) => checksumMethod(params) === 'crc';
+
+export const isFletcher = (params: Record<string, string>) => checksumMethod(params) in FLETCHER_VARIANTS;
+
+export const isCustomCrc = (params: Record<string, string>) => isCrc(params) && params.crcPreset === 'custom';
+
+const parseHex = (value: string): number => Number.parseInt(value.replace(/^0x/i, ''), 16);
+
+/** Reads the preset, or the custom Rocksoft parameters, from the select and text fields. */
+export const crcParameters = (params: Record<string, string>): CrcParameters =>
+  params.crcPreset === 'custom'
+    ? {
+      name: 'Custom CRC',
+      width: Number(params.crcWidth),
+      poly: parseHex(params.crcPoly),
+      init: parseHex(params.crcInit),
+      refin: params.crcRefin === 'true',
+      refout: params.crcRefout === 'true',
+      xorout: parseHex(params.crcXorout)
+    }
+    : CRC_PRESETS[(params.crcPreset as CrcPresetId | undefined) ?? 'crc32'];
+
+export const isCustomGroup = (params: Record<string, string>) => params.group === 'custom';
+
+const optionalInteger = (value?: string): bigint | undefined => (value ? parseBigInt(value) ?? undefined : undefined);
+
+export const sha3Variant = (params: Record<string, string>): Sha3Variant => (params.variant as Sha3Variant | undefined) ?? 'sha3-256';
+
+const parsePositions = (value = ''): number[] =>
+  value.split(',').map((part) => part.trim()).filter(Boolean).map(Number);
+
+/**
+ * How every algorithm turns its options into an engine call. This module
+ * imports no React or icons, so the trace worker can load it on its own;
+ * each plugin takes its `run` from here.
+ */
+export const engines = {
+  aes: (input, action, options, steps) => runCipher(runAes, input, action, options, steps),
+  des: (input, action, options, steps) => runCipher(runDes, input, action, options, steps),
+  tdes: (input, action, options, steps) => runCipher(runTdes, input, action, options, steps),
+  checksum: (input, action, options, steps) => {
+    const params = options.params ?? {};
+    const direction = action === 'verify' ? 'verify' : 'generate';
+    if (isCrc(params)) {
+      return runCrc(
+        input,
+        direction,
+        params.expectedCrc,
+        {
+          parameters: crcParameters(params),
+          implementation: (params.crcImplementation as CrcImplementation | undefined) ?? 'bitwise',
+          inputEncoding: options.inputEncoding
+        },
+        steps
+      );
+    }
+    if (isFletcher(params)) {
+      return runFletcher(
+        input,
+        direction,
+        params.expectedSum,
+        { variant: checksumMethod(params) as FletcherVariant, inputEncoding: options.inputEncoding },
+        steps
+      );
+    }
+    if (checksumMethod(params) === 'luhn') return runLuhn(input, direction, steps);
+    return runChecksum(input, direction, params.expectedChecksum, options.inputEncoding, steps);
+  },
+  hamming: (input, action, options, steps) => {
+    const params = options.params ?? {};
+    return runHamming(
+      input,
+      action === 'verify' ? 'correct' : 'encode',
+      {
+        code: (params.code as HammingCode | undefined) ?? 'hamming74',
+        corruptCodeword: params.corruptCodeword ? Number(params.corruptCodeword) : undefined,
+        corruptPositions: parsePositions(params.corruptPositions),
+        inputEncoding: options.inputEncoding,
+        outputEncoding: options.outputEncoding
+      },
+      steps
+    );
+  },
+  sha256: (input, _action, options, steps) =>
+    runSha256(input, { inputEncoding: options.inputEncoding, outputEncoding: options.outputEncoding }, steps),
+  sha1: (input, _action, options, steps) =>
+    runSha1(input, { inputEncoding: options.inputEncoding, outputEncoding: options.outputEncoding }, steps),
+  md5: (input, _action, options, steps) =>
+    runMd5(input, { inputEncoding: options.inputEncoding, outputEncoding: options.outputEncoding }, steps),
+  sha3: (input, _action, options, steps) => {
+    const params = options.params ?? {};
+    return runSha3(
+      input,
+      {
+        variant: sha3Variant(params),
+        outputBits: params.outputBits ? Number(params.outputBits) : undefined,
+        inputEncoding: options.inputEncoding,
+        outputEncoding: options.outputEncoding
+      },
+      steps
+    );
+  },
+  hmac: (input, action, options, steps) =>
+    runHmac(
+      input,
+      action === 'verify' ? 'verify' : 'generate',
+      options.params?.expectedTag,
+      {
+        key: options.key ? fromHex(options.key) : undefined,
+        inputEncoding: options.inputEncoding,
+        outputEncoding: options.outputEncoding
+      },
+      steps
+    ),
+  rsa: (input, action, options, steps) =>
+    runRsa(
+      input,
+      action === 'sign' || action === 'encrypt' ? action : 'both',
+      { keySize: options.params?.keySize as RsaKeySize | undefined, inputEncoding: options.inputEncoding },
+      steps
+    ),
+  dh: (_input, _action, options, steps) => {
+    const params = options.params ?? {};
+    const group = isCustomGroup(params)
+      ? { p: parseBigInt(params.p) ?? undefined, g: parseBigInt(params.g) ?? undefined }
+      : DH_GROUPS[(params.group as DhGroupId | undefined) ?? 'toy23'];
+    return runDh(
+      {
+        p: group.p,
+        g: group.g,
+        alicePrivate: optionalInteger(params.alicePrivate),
+        bobPrivate: optionalInteger(params.bobPrivate)
+      },
+      steps
+    );
+  },
+  ecc: (_input, _action, options, steps) =>
+    runEcc({ curve: selectedCurve(options), privateKey: scalarParam(options, 'privateKey') }, steps),
+  ecdh: (_input, _action, options, steps) =>
+    runEcdh(
+      {
+        curve: selectedCurve(options),
+        alicePrivate: scalarParam(options, 'alicePrivate'),
+        bobPrivate: scalarParam(options, 'bobPrivate')
+      },
+      steps
+    ),
+  ecdsa: (input, action, options, steps) =>
+    runEcdsa(
+      input,
+      action === 'attack' ? 'attack' : 'sign',
+      options.params?.secondMessage,
+      { curve: selectedCurve(options), inputEncoding: options.inputEncoding },
+      steps
+    )
+} satisfies Record<string, AlgorithmEngine>;
+
+export type Algorithm = keyof typeof engines;
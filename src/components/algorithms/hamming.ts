@@ -0,0 +1,77 @@
+import { Binary } from 'lucide-react';
+import { HAMMING_CODES, HammingCode } from '@/lib/crypto/hamming';
+import { engines } from './engines';
+import type { AlgorithmPlugin } from './types';
+
+const hamming: AlgorithmPlugin = {
+  metadata: {
+    title: 'Hamming Code',
+    heading: 'Hamming Error Correction',
+    description: 'Error-correcting codes that locate and repair flipped bits, with SECDED double-error detection',
+    icon: Binary,
+    steps: 'Parity Encoding → Channel Errors → Syndrome → Correction',
+    complexity: 'Beginner'
+  },
+  theme: {
+    icon: 'bg-violet-600',
+    gradient: 'from-violet-50 to-purple-100',
+    heading: 'text-violet-900',
+    border: 'border-violet-600'
+  },
+  actions: [
+    { value: 'generate', label: 'Encode', description: 'Add parity bits to every four data bits' },
+    { value: 'verify', label: 'Corrupt and correct', description: 'Flip bits of a codeword and let the decoder find and repair them' }
+  ],
+  options: [
+    {
+      type: 'select',
+      name: 'code',
+      label: 'Code',
+      choices: (Object.keys(HAMMING_CODES) as HammingCode[]).map((id) => ({
+        value: id,
+        label: `${HAMMING_CODES[id].name}: ${HAMMING_CODES[id].description}`
+      })),
+      defaultValue: 'hamming74'
+    },
+    {
+      type: 'text',
+      name: 'corruptCodeword',
+      label: 'Codeword to corrupt',
+      placeholder: 'e.g. 1',
+      defaultValue: '1',
+      actions: ['verify'],
+      validate: (value) => /^[1-9]\d*$/.test(value) ? null : 'Enter a codeword number from 1'
+    },
+    {
+      type: 'text',
+      name: 'corruptPositions',
+      label: 'Bit positions to flip',
+      placeholder: 'e.g. 5, or 3, 6 for a double error',
+      defaultValue: '5',
+      actions: ['verify'],
+      validate: (value) => /^(\d(\s*,\s*\d)*)?$/.test(value) ? null : 'Enter positions from 0 to 7, separated by commas'
+    },
+    { type: 'outputEncoding', actions: ['verify'] }
+  ],
+  exampleInput: 'Hi!',
+  highlights: [
+    '3 parity bits per 4 data bits',
+    'Syndrome points at the flipped bit',
+    'SECDED adds an overall parity bit'
+  ],
+  learningPoints: [
+    'Parity bits sit at the power-of-two positions, and each covers the positions whose number has that bit set',
+    'The failed parity checks, read as a binary number, give the position of a single flipped bit',
+    'Hamming(7,4) mistakes a double error for a single one and "corrects" the wrong bit',
+    'The extra overall parity bit of SECDED tells single errors, which it corrects, from double errors, which it reports'
+  ],
+  run: engines.hamming,
+  successMessage: (action) => action === 'verify'
+    ? 'The received codewords have been checked and corrected!'
+    : 'Your data has been encoded with a Hamming code!',
+  resultDescription: (action) => action === 'verify'
+    ? 'The decoded data and what the decoder corrected or detected'
+    : 'The codewords, one per four data bits'
+};
+
+export default hamming;
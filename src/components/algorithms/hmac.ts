@@ -0,0 +1,60 @@
+import { ShieldCheck } from 'lucide-react';
+import { RFC4231_EXAMPLE } from '@/lib/crypto/hmac';
+import { RoundStepBody } from '../crypto/StepBody';
+import { engines } from './engines';
+import type { AlgorithmPlugin } from './types';
+
+const hmac: AlgorithmPlugin = {
+  metadata: {
+    title: 'HMAC-SHA256',
+    heading: 'HMAC-SHA256 Authentication',
+    description: 'Keyed message authentication code built from two nested SHA-256 calls',
+    icon: ShieldCheck,
+    steps: 'Key Padding → Inner Hash (ipad) → Outer Hash (opad) → Tag',
+    complexity: 'Intermediate'
+  },
+  theme: {
+    icon: 'bg-sky-700',
+    gradient: 'from-sky-50 to-slate-100',
+    heading: 'text-sky-900',
+    border: 'border-sky-700'
+  },
+  actions: [
+    { value: 'generate', label: 'Compute tag', description: 'Authenticate your message under the key' },
+    { value: 'verify', label: 'Verify tag', description: 'Check a received tag with a constant-time comparison' }
+  ],
+  options: [
+    { type: 'outputEncoding' },
+    { type: 'key', algorithm: 'hmac', defaultKey: RFC4231_EXAMPLE.key },
+    {
+      type: 'text',
+      name: 'expectedTag',
+      label: 'Received Tag (hex)',
+      placeholder: `e.g. ${RFC4231_EXAMPLE.tag}`,
+      actions: ['verify'],
+      validate: (value) => /^(0x)?[0-9a-f]{64}$/i.test(value.replace(/\s+/g, '')) ? null : 'Enter exactly 64 hexadecimal digits'
+    }
+  ],
+  exampleInput: RFC4231_EXAMPLE.message,
+  highlights: [
+    'Any key length; 64-byte key blocks',
+    'Two SHA-256 calls per message',
+    '256-bit tag'
+  ],
+  learningPoints: [
+    'Keys longer than the hash block are hashed first; shorter ones are padded with zeros',
+    'The inner and outer hashes use the key XORed with different constants (ipad and opad)',
+    'The outer hash stops the length-extension attack that breaks the naive H(key ‖ message)',
+    'Tags must be compared in constant time, or response times leak how much of a forgery is right'
+  ],
+  run: engines.hmac,
+  successMessage: (action) => action === 'verify'
+    ? 'The received tag has been checked against HMAC-SHA256!'
+    : 'Your message has been authenticated with HMAC-SHA256!',
+  resultDescription: (action) => action === 'verify'
+    ? 'The computed tag and whether the received one matches'
+    : 'The 256-bit authentication tag',
+  renderStep: RoundStepBody
+};
+
+export default hmac;
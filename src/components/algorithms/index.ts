@@ -0,0 +1,49 @@
+import aes from './aes';
+import des from './des';
+import tdes from './tdes';
+import checksum from './checksum';
+import hamming from './hamming';
+import sha256 from './sha256';
+import sha1 from './sha1';
+import md5 from './md5';
+import sha3 from './sha3';
+import hmac from './hmac';
+import rsa from './rsa';
+import dh from './dh';
+import ecc from './ecc';
+import ecdh from './ecdh';
+import ecdsa from './ecdsa';
+import type { Algorithm } from './engines';
+import type { AlgorithmMetadata, AlgorithmPlugin } from './types';
+
+/**
+ * Every explorable algorithm, in selector order. Adding an algorithm means
+ * writing one plugin module and listing it here, with its run in `engines`.
+ */
+export const algorithms = {
+  aes,
+  des,
+  tdes,
+  checksum,
+  hamming,
+  sha256,
+  sha1,
+  md5,
+  sha3,
+  hmac,
+  rsa,
+  dh,
+  ecc,
+  ecdh,
+  ecdsa
+} satisfies Record<Algorithm, AlgorithmPlugin>;
+
+export const algorithmIds = Object.keys(algorithms) as Algorithm[];
+
+export const getAlgorithm = (algorithm: Algorithm): AlgorithmPlugin => algorithms[algorithm];
+
+/** Cards shown as "Coming Soon" until their plugin exists. */
+export const upcomingAlgorithms: { metadata: AlgorithmMetadata; color: string }[] = [];
+
+export type { Algorithm } from './engines';
+export type { Action, AlgorithmPlugin, ProcessOptions } from './types';
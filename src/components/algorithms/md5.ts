@@ -0,0 +1,54 @@
+import { Fingerprint } from 'lucide-react';
+import { RoundStepBody } from '../crypto/StepBody';
+import { engines } from './engines';
+import type { AlgorithmPlugin } from './types';
+
+const md5: AlgorithmPlugin = {
+  metadata: {
+    title: 'MD5 Hash Function',
+    heading: 'MD5 Hashing',
+    description: 'The classic 128-bit hash, now broken by practical collisions',
+    icon: Fingerprint,
+    steps: 'Padding → 4 Rounds of 16 Operations (F, G, H, I) → Digest',
+    complexity: 'Intermediate'
+  },
+  theme: {
+    icon: 'bg-rose-700',
+    gradient: 'from-rose-50 to-stone-100',
+    heading: 'text-rose-900',
+    border: 'border-rose-700'
+  },
+  actions: [
+    { value: 'generate', label: 'Hash', description: 'Compute the MD5 digest of your message' }
+  ],
+  options: [{ type: 'outputEncoding' }],
+  exampleInput: 'abc',
+  deprecated: {
+    reason: 'MD5 collisions can be found in seconds on a laptop, and chosen-prefix collisions were used to forge a CA certificate (2008) and to sign the Flame malware (2012). Use SHA-256 or SHA-3 instead.',
+    collision: {
+      description: 'These two 128-byte messages from Wang and Yu\'s 2004 attack differ in six bytes yet have the same MD5 digest. Hash each one and compare the results.',
+      inputs: [
+        'd131dd02c5e6eec4693d9a0698aff95c2fcab58712467eab4004583eb8fb7f8955ad340609f4b30283e488832571415a085125e8f7cdc99fd91dbdf280373c5bd8823e3156348f5bae6dacd436c919c6dd53e2b487da03fd02396306d248cda0e99f33420f577ee8ce54b67080a80d1ec69821bcb6a8839396f9652b6ff72a70',
+        'd131dd02c5e6eec4693d9a0698aff95c2fcab50712467eab4004583eb8fb7f8955ad340609f4b30283e4888325f1415a085125e8f7cdc99fd91dbd7280373c5bd8823e3156348f5bae6dacd436c919c6dd53e23487da03fd02396306d248cda0e99f33420f577ee8ce54b67080280d1ec69821bcb6a8839396f965ab6ff72a70'
+      ],
+      inputEncoding: 'hex'
+    }
+  },
+  highlights: [
+    '512-bit blocks, 128-bit digest',
+    '64 operations in 4 rounds',
+    'Little-endian Merkle–Damgård'
+  ],
+  learningPoints: [
+    'MD5 shares the Merkle–Damgård padding and chaining of SHA-1 and SHA-256, but reads words little-endian',
+    'Each round has its own boolean function (F, G, H, I) and reads the sixteen block words in its own order',
+    'Only one register changes per operation, so differences introduced in a block can be steered and cancelled',
+    'Once two blocks collide, any common suffix keeps them colliding, because the chaining values are equal'
+  ],
+  run: engines.md5,
+  successMessage: () => 'Your message has been hashed with MD5!',
+  resultDescription: () => 'The 128-bit digest',
+  renderStep: RoundStepBody
+};
+
+export default md5;
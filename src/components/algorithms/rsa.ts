@@ -0,0 +1,56 @@
+import { Key } from 'lucide-react';
+import { RSA_KEY_SIZES, RsaKeySize } from '@/lib/crypto/rsa';
+import { engines } from './engines';
+import type { AlgorithmPlugin } from './types';
+
+const rsa: AlgorithmPlugin = {
+  metadata: {
+    title: 'RSA (Rivest-Shamir-Adleman)',
+    heading: 'RSA Public-Key Cryptography',
+    description: 'Public-key cryptosystem for secure data transmission',
+    icon: Key,
+    steps: 'Key Generation → Encryption → Decryption',
+    complexity: 'Advanced'
+  },
+  theme: {
+    icon: 'bg-red-500',
+    gradient: 'from-rose-50 to-red-100',
+    heading: 'text-red-800',
+    border: 'border-red-500'
+  },
+  actions: [
+    { value: 'both', label: 'Encrypt then Decrypt', description: 'Generate a key pair, encrypt with the public key and decrypt with the private key' },
+    { value: 'encrypt', label: 'Encrypt only', description: 'Generate a key pair and encrypt with the public key' },
+    { value: 'sign', label: 'Sign then Verify', description: 'Generate a key pair, sign with the private key and verify with the public key' }
+  ],
+  options: [
+    {
+      type: 'select',
+      name: 'keySize',
+      label: 'Key Size',
+      choices: (Object.keys(RSA_KEY_SIZES) as RsaKeySize[]).map((size) => ({ value: size, label: RSA_KEY_SIZES[size].name })),
+      defaultValue: 'toy'
+    }
+  ],
+  exampleInput: 'Hi RSA',
+  highlights: [
+    'Security rests on factoring n = p · q',
+    'Primes found with Miller-Rabin tests',
+    'Square-and-multiply exponentiation'
+  ],
+  learningPoints: [
+    'The public key (n, e) encrypts and verifies; the private exponent d decrypts and signs',
+    'd is the inverse of e modulo φ(n), found with the extended Euclidean algorithm',
+    'Square-and-multiply needs only about two multiplications per exponent bit',
+    'Textbook RSA is deterministic; real systems use OAEP and PSS padding'
+  ],
+  run: engines.rsa,
+  successMessage: (action) => action === 'sign'
+    ? 'Your message has been signed and the signature verified with RSA!'
+    : 'Your message has been successfully encrypted using RSA!',
+  resultDescription: (action) => action === 'sign'
+    ? 'Signature blocks (hex) and verification outcome'
+    : 'Ciphertext blocks (hex), one per message chunk'
+};
+
+export default rsa;
@@ -0,0 +1,58 @@
+import { FileDigit } from 'lucide-react';
+import { RoundStepBody } from '../crypto/StepBody';
+import { engines } from './engines';
+import type { AlgorithmPlugin } from './types';
+
+/** The PDF header and JPEG comment shared by both SHAttered files, up to where their two collision blocks begin. */
+const SHATTERED_PREFIX =
+  '255044462d312e330a25e2e3cfd30a0a0a312030206f626a0a3c3c2f57696474682032203020522f4865696768742033203020522f547970652034203020522f537562747970652035203020522f46696c7465722036203020522f436f6c6f7253706163652037203020522f4c656e6774682038203020522f42697473506572436f6d706f6e656e7420383e3e0a73747265616d0affd8fffe00245348412d3120697320646561642121212121852fec092339759c39b1a1c63c4c97e1fffe01';
+
+const sha1: AlgorithmPlugin = {
+  metadata: {
+    title: 'SHA-1 Hash Function',
+    heading: 'SHA-1 Hashing',
+    description: 'The 160-bit predecessor of SHA-256, retired after the SHAttered collision',
+    icon: FileDigit,
+    steps: 'Padding → 80-Word Schedule → 80 Rounds (Ch, Parity, Maj) → Digest',
+    complexity: 'Intermediate'
+  },
+  theme: {
+    icon: 'bg-amber-700',
+    gradient: 'from-amber-50 to-stone-100',
+    heading: 'text-amber-900',
+    border: 'border-amber-700'
+  },
+  actions: [
+    { value: 'generate', label: 'Hash', description: 'Compute the SHA-1 digest of your message' }
+  ],
+  options: [{ type: 'outputEncoding' }],
+  exampleInput: 'abc',
+  deprecated: {
+    reason: 'The SHAttered attack (2017) produced two different PDF files with the same SHA-1 digest, and the 2020 Shambles attack made chosen-prefix collisions affordable. Browsers, Git and certificate authorities have moved to SHA-256.',
+    collision: {
+      description: 'These are the first 320 bytes of the two SHAttered PDFs. They share a 192-byte header, then differ throughout the next two 64-byte blocks. After those blocks both internal states are identical, so the digests match.',
+      inputs: [
+        `${SHATTERED_PREFIX}7f46dc93a6b67e013b029aaa1db2560b45ca67d688c7f84b8c4c791fe02b3df614f86db1690901c56b45c1530afedfb76038e972722fe7ad728f0e4904e046c230570fe9d41398abe12ef5bc942be33542a4802d98b5d70f2a332ec37fac3514e74ddc0f2cc1a874cd0c78305a21566461309789606bd0bf3f98cda8044629a1`,
+        `${SHATTERED_PREFIX}7346dc9166b67e118f029ab621b2560ff9ca67cca8c7f85ba84c79030c2b3de218f86db3a90901d5df45c14f26fedfb3dc38e96ac22fe7bd728f0e45bce046d23c570feb141398bb552ef5a0a82be331fea48037b8b5d71f0e332edf93ac3500eb4ddc0decc1a864790c782c76215660dd309791d06bd0af3f98cda4bc4629b1`
+      ],
+      inputEncoding: 'hex'
+    }
+  },
+  highlights: [
+    '512-bit blocks, 160-bit digest',
+    '80 rounds in 4 stages',
+    'Merkle–Damgård construction'
+  ],
+  learningPoints: [
+    'SHA-1 pads and chains blocks exactly like SHA-256, with five working registers instead of eight',
+    'The schedule stretches 16 words to 80 with XORs and a one-bit rotation',
+    'Each stage of 20 rounds uses its own boolean function (Ch, Parity, Maj) and constant',
+    'A 160-bit digest should take 2⁸⁰ work to collide; differential attacks brought this down to about 2⁶³'
+  ],
+  run: engines.sha1,
+  successMessage: () => 'Your message has been hashed with SHA-1!',
+  resultDescription: () => 'The 160-bit digest',
+  renderStep: RoundStepBody
+};
+
+export default sha1;
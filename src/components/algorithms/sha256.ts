@@ -0,0 +1,43 @@
+import { Hash } from 'lucide-react';
+import { RoundStepBody } from '../crypto/StepBody';
+import { engines } from './engines';
+import type { AlgorithmPlugin } from './types';
+
+const sha256: AlgorithmPlugin = {
+  metadata: {
+    title: 'SHA-256 Hash Function',
+    heading: 'SHA-256 Hashing',
+    description: 'One-way function producing a 256-bit fingerprint of any message',
+    icon: Hash,
+    steps: 'Padding → Message Schedule → 64 Compression Rounds → Digest',
+    complexity: 'Intermediate'
+  },
+  theme: {
+    icon: 'bg-slate-600',
+    gradient: 'from-slate-50 to-gray-100',
+    heading: 'text-slate-800',
+    border: 'border-slate-600'
+  },
+  actions: [
+    { value: 'generate', label: 'Hash', description: 'Compute the SHA-256 digest of your message' }
+  ],
+  options: [{ type: 'outputEncoding' }],
+  exampleInput: 'abc',
+  highlights: [
+    '512-bit blocks, 256-bit digest',
+    '64 rounds per block',
+    'Merkle–Damgård construction'
+  ],
+  learningPoints: [
+    'Padding appends a 1 bit, zeros and the message length so every input fills whole blocks',
+    'The message schedule stretches 16 block words into 64 round inputs',
+    'Each round updates eight working variables with Σ, Ch and Maj functions',
+    'Changing one input bit changes about half of the digest bits (the avalanche effect)'
+  ],
+  run: engines.sha256,
+  successMessage: () => 'Your message has been hashed with SHA-256!',
+  resultDescription: () => 'The 256-bit digest',
+  renderStep: RoundStepBody
+};
+
+export default sha256;
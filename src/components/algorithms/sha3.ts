@@ -0,0 +1,71 @@
+import { Sprout } from 'lucide-react';
+import { SHA3_VARIANTS, Sha3Variant } from '@/lib/crypto/keccak';
+import { RoundStepBody } from '../crypto/StepBody';
+import { engines, sha3Variant } from './engines';
+import type { AlgorithmPlugin } from './types';
+
+const isExtendable = (params: Record<string, string>) => SHA3_VARIANTS[sha3Variant(params)].extendable;
+
+const outputLength = (value: string): string | null => {
+  if (!value) return null;
+  const bits = Number(value);
+  return Number.isInteger(bits) && bits > 0 && bits % 8 === 0 && bits <= 8192
+    ? null
+    : 'Enter a multiple of 8 between 8 and 8192';
+};
+
+const sha3: AlgorithmPlugin = {
+  metadata: {
+    title: 'SHA-3 / Keccak Sponge',
+    heading: 'SHA-3 Hashing',
+    description: 'Sponge-based hash and extendable-output functions built on a 1600-bit permutation',
+    icon: Sprout,
+    steps: 'Padding → Absorb → 24 Rounds of θ ρ π χ ι → Squeeze',
+    complexity: 'Advanced'
+  },
+  theme: {
+    icon: 'bg-lime-600',
+    gradient: 'from-lime-50 to-emerald-100',
+    heading: 'text-lime-900',
+    border: 'border-lime-600'
+  },
+  actions: [
+    { value: 'generate', label: 'Hash', description: 'Absorb your message and squeeze out the digest' }
+  ],
+  options: [
+    {
+      type: 'select',
+      name: 'variant',
+      label: 'Function',
+      choices: (Object.keys(SHA3_VARIANTS) as Sha3Variant[]).map((id) => ({ value: id, label: SHA3_VARIANTS[id].name })),
+      defaultValue: 'sha3-256'
+    },
+    {
+      type: 'text',
+      name: 'outputBits',
+      label: 'Output length (bits)',
+      placeholder: 'Default 256 for SHAKE128, 512 for SHAKE256',
+      visible: isExtendable,
+      validate: outputLength
+    },
+    { type: 'outputEncoding' }
+  ],
+  exampleInput: 'abc',
+  highlights: [
+    '1600-bit state as 5×5 lanes of 64 bits',
+    '24 rounds per permutation',
+    'Sponge construction, not Merkle–Damgård'
+  ],
+  learningPoints: [
+    'The sponge absorbs rate-sized blocks by XOR and permutes, then squeezes output from the same rate lanes',
+    'The capacity lanes are never read or written directly, which hides the full state and rules out length extension',
+    'Only χ is non-linear; θ spreads bits across columns, ρ along lanes and π between lanes',
+    'SHAKE128 and SHAKE256 squeeze as much output as you ask for, making them extendable-output functions'
+  ],
+  run: engines.sha3,
+  successMessage: () => 'Your message has been absorbed and squeezed through the Keccak sponge!',
+  resultDescription: () => 'The digest squeezed from the sponge',
+  renderStep: RoundStepBody
+};
+
+export default sha3;
@@ -0,0 +1,49 @@
+import { Layers } from 'lucide-react';
+import { DES_BLOCK_SIZE } from '@/lib/crypto/des';
+import { DEFAULT_TDES_KEY } from '@/lib/crypto/tdes';
+import { toHex } from '@/lib/crypto/bytes';
+import { RoundStepBody } from '../crypto/StepBody';
+import { cipherActions, cipherSuccessMessage } from './cipher';
+import { engines } from './engines';
+import type { AlgorithmPlugin } from './types';
+
+const tdes: AlgorithmPlugin = {
+  metadata: {
+    title: 'Triple DES (3DES)',
+    heading: 'Triple DES Encryption',
+    description: 'DES applied three times in Encrypt-Decrypt-Encrypt order to extend its key',
+    icon: Layers,
+    steps: 'Encrypt with K1 → Decrypt with K2 → Encrypt with K3',
+    complexity: 'Intermediate'
+  },
+  theme: {
+    icon: 'bg-teal-600',
+    gradient: 'from-teal-50 to-cyan-100',
+    heading: 'text-teal-800',
+    border: 'border-teal-600'
+  },
+  actions: cipherActions,
+  options: [
+    { type: 'outputEncoding' },
+    { type: 'key', algorithm: 'tdes', defaultKey: toHex(DEFAULT_TDES_KEY) },
+    { type: 'cipherMode', blockSize: DES_BLOCK_SIZE }
+  ],
+  exampleInput: 'Secret123',
+  highlights: [
+    '64-bit blocks, three DES passes',
+    '168, 112 or 56-bit keys plus parity (keying options 1, 2, 3)',
+    'Encrypt-Decrypt-Encrypt structure'
+  ],
+  learningPoints: [
+    'Triple DES runs the DES block cipher three times with up to three keys',
+    'The middle pass decrypts so that a single repeated key gives plain DES',
+    'Meet-in-the-middle attacks limit three-key 3DES to about 112-bit security',
+    'Its 64-bit block makes it unsafe for large volumes of data; NIST retired it in 2023'
+  ],
+  run: engines.tdes,
+  successMessage: cipherSuccessMessage('Triple DES'),
+  resultDescription: () => 'Processed output',
+  renderStep: RoundStepBody
+};
+
+export default tdes;
@@ -0,0 +1,126 @@
+import type React from 'react';
+import type { LucideIcon } from 'lucide-react';
+import type { CipherMode } from '@/lib/crypto/modes';
+import type { PaddingScheme } from '@/lib/crypto/padding';
+import type { Encoding } from '@/lib/crypto/encoding';
+import type { ErrorDetector } from '@/lib/crypto/detection';
+import type { KeyedAlgorithm } from '@/lib/crypto/keys';
+import type { EngineResult, Step, TraceValue } from '@/lib/crypto/types';
+
+export type Action = 'encrypt' | 'decrypt' | 'both' | 'generate' | 'verify' | 'sign' | 'attack';
+
+export interface ProcessOptions {
+  key?: string;
+  mode?: CipherMode;
+  iv?: string;
+  aad?: string;
+  padding?: PaddingScheme;
+  inputEncoding?: Encoding;
+  outputEncoding?: Encoding;
+  /** Values of the algorithm's own select and text fields, keyed by field name. */
+  params?: Record<string, string>;
+}
+
+export type Complexity = 'Beginner' | 'Intermediate' | 'Advanced' | 'Expert';
+
+export interface AlgorithmMetadata {
+  title: string;
+  /** Heading of the input panel, e.g. "AES Encryption". */
+  heading: string;
+  description: string;
+  icon: LucideIcon;
+  /** The main stages, shown on the selector card. */
+  steps: string;
+  complexity: Complexity;
+}
+
+/** Tailwind classes for the algorithm's colour scheme, written out in full so they are not purged. */
+export interface AlgorithmTheme {
+  icon: string;
+  gradient: string;
+  heading: string;
+  border: string;
+}
+
+export interface ActionChoice {
+  value: Action;
+  label: string;
+  description: string;
+}
+
+interface FieldBase {
+  /** Limits the field to some actions, e.g. a received checksum only when verifying. */
+  actions?: Action[];
+  /** Hides the field unless it returns true for the current select and text values. */
+  visible?: (params: Record<string, string>) => boolean;
+}
+
+/**
+ * One entry of an algorithm's options schema. Key, cipher mode and output
+ * format fields use the shared editors; select and text fields are stored in
+ * `ProcessOptions.params` under their name.
+ */
+export type OptionField = FieldBase & (
+  | { type: 'key'; algorithm: KeyedAlgorithm; defaultKey: string }
+  | { type: 'cipherMode'; blockSize: number }
+  | { type: 'outputEncoding' }
+  | { type: 'select'; name: string; label: string; choices: { value: string; label: string }[]; defaultValue: string }
+  | {
+    type: 'text';
+    name: string;
+    label: string;
+    placeholder?: string;
+    defaultValue?: string;
+    /** Returns an error message, or null when the value is acceptable. */
+    validate?: (value: string) => string | null;
+  }
+);
+
+export interface StepRendererProps {
+  step: Step;
+  /** Every step up to and including `step`, for renderers that draw the run so far. */
+  history: Step[];
+}
+
+/** Why an algorithm should no longer be used, with an optional pair of inputs that demonstrates the break. */
+export interface Deprecation {
+  reason: string;
+  collision?: {
+    description: string;
+    /** Two different inputs that give the same output, in `inputEncoding`. */
+    inputs: [string, string];
+    inputEncoding: Encoding;
+  };
+}
+
+/** An extra results section built from the run's input, such as how related algorithms compare on it. */
+export interface Comparison {
+  title: string;
+  description: string;
+  values: TraceValue[];
+}
+
+export interface AlgorithmPlugin {
+  metadata: AlgorithmMetadata;
+  theme: AlgorithmTheme;
+  actions: ActionChoice[];
+  options: OptionField[];
+  exampleInput: string;
+  /** False for algorithms such as key exchanges that take no message; defaults to true. */
+  hasInput?: boolean;
+  /** Marks broken algorithms on the selector and results pages. */
+  deprecated?: Deprecation;
+  /** Returns a comparison to show with the results, or null when the input does not call for one. */
+  comparison?: (input: string, action: Action, options: ProcessOptions) => Comparison | null;
+  /** The check the error-injection playground corrupts the input against, or null when the options select none. */
+  errorDetector?: (options: ProcessOptions) => ErrorDetector | null;
+  /** Short facts shown beside the options. */
+  highlights: string[];
+  learningPoints: string[];
+  /** Runs the engine, pushing steps onto `steps` (which may be streamed) as they are produced. */
+  run: (input: string, action: Action, options: ProcessOptions, steps?: Step[]) => EngineResult;
+  successMessage: (action: Action) => string;
+  resultDescription: (action: Action) => string;
+  /** Draws the body of a step; the trace values are listed when omitted. */
+  renderStep?: React.FC<StepRendererProps>;
+}
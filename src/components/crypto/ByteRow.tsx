@@ -0,0 +1,27 @@
+import React from 'react';
+
+interface ByteRowProps {
+  bytes: number[];
+  highlight?: number[];
+}
+
+const ByteRow: React.FC<ByteRowProps> = ({ bytes, highlight = [] }) => {
+  return (
+    <div className="flex flex-wrap gap-1 font-mono text-sm">
+      {bytes.map((value, index) => (
+        <div
+          key={index}
+          className={`w-10 h-10 flex items-center justify-center rounded border ${
+            highlight.includes(index)
+              ? 'bg-amber-100 border-amber-400 text-amber-900 font-semibold'
+              : 'bg-blue-50 border-blue-200 text-blue-900'
+          }`}
+        >
+          {value.toString(16).padStart(2, '0')}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ByteRow;
@@ -0,0 +1,44 @@
+import React from 'react';
+
+interface CodewordRowProps {
+  bits: number[];
+  positions: number[];
+  parity: number[];
+  highlight?: number[];
+}
+
+/**
+ * The bits of a Hamming codeword with their position numbers above and
+ * their roles (p for parity, d for data) below. Parity bits are tinted
+ * violet; highlighted positions, such as flipped bits, are red.
+ */
+const CodewordRow: React.FC<CodewordRowProps> = ({ bits, positions, parity, highlight = [] }) => {
+  const data = positions.filter((position) => !parity.includes(position));
+  const roles = positions.map((position) => (parity.includes(position) ? `p${position}` : `d${data.indexOf(position) + 1}`));
+  return (
+    <div className="flex flex-wrap gap-1 font-mono text-sm">
+      {bits.map((bit, index) => {
+        const position = positions[index];
+        return (
+          <div key={position} className="flex flex-col items-center gap-1">
+            <span className="text-xs text-gray-500">{position}</span>
+            <div
+              className={`w-10 h-10 flex items-center justify-center rounded border ${
+                highlight.includes(position)
+                  ? 'bg-red-100 border-red-400 text-red-800 font-semibold'
+                  : parity.includes(position)
+                    ? 'bg-violet-50 border-violet-300 text-violet-900'
+                    : 'bg-blue-50 border-blue-200 text-blue-900'
+              }`}
+            >
+              {bit}
+            </div>
+            <span className="text-xs text-gray-500">{roles[index]}</span>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default CodewordRow;
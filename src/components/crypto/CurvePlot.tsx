@@ -0,0 +1,45 @@
+import React from 'react';
+import { CartesianGrid, LabelList, Scatter, ScatterChart, XAxis, YAxis } from 'recharts';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+
+interface CurvePlotProps {
+  modulus: number;
+  points: [number, number][];
+  marked: { label: string; x: number; y: number }[];
+}
+
+const chartConfig = {
+  points: { label: 'Curve point', color: '#a5b4fc' },
+  marked: { label: 'Marked point', color: '#e11d48' }
+} satisfies ChartConfig;
+
+/** Scatter plot of the points of a curve over a small prime field, with the marked points labelled. */
+const CurvePlot: React.FC<CurvePlotProps> = ({ modulus, points, marked }) => {
+  const data = points.map(([x, y]) => ({ x, y }));
+  // Several labels can share a point (e.g. the input and result of a step); show them together.
+  const labelled = Object.values(
+    marked.reduce<Record<string, { x: number; y: number; label: string }>>((byPoint, point) => {
+      const key = `${point.x},${point.y}`;
+      byPoint[key] = byPoint[key] ? { ...byPoint[key], label: `${byPoint[key].label}, ${point.label}` } : { ...point };
+      return byPoint;
+    }, {})
+  );
+  const domain = [0, modulus - 1];
+
+  return (
+    <ChartContainer config={chartConfig} className="aspect-square max-h-96 w-full">
+      <ScatterChart margin={{ top: 16, right: 16, bottom: 8, left: 0 }}>
+        <CartesianGrid strokeDasharray="3 3" />
+        <XAxis type="number" dataKey="x" name="x" domain={domain} allowDecimals={false} />
+        <YAxis type="number" dataKey="y" name="y" domain={domain} allowDecimals={false} />
+        <ChartTooltip content={<ChartTooltipContent hideLabel />} />
+        <Scatter name="points" data={data} fill="var(--color-points)" isAnimationActive={false} />
+        <Scatter name="marked" data={labelled} fill="var(--color-marked)" isAnimationActive={false}>
+          <LabelList dataKey="label" position="top" className="fill-foreground" />
+        </Scatter>
+      </ScatterChart>
+    </ChartContainer>
+  );
+};
+
+export default CurvePlot;
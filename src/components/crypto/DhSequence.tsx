@@ -0,0 +1,78 @@
+import React from 'react';
+import { Eye } from 'lucide-react';
+import StepBody from './StepBody';
+import type { StepRendererProps } from '../algorithms/types';
+import type { DhLane, DhStep, Step, TraceValue } from '@/lib/crypto/types';
+
+const lanes = [
+  { name: 'Alice', className: 'text-rose-700' },
+  { name: 'Wire (visible to Eve)', className: 'text-gray-700' },
+  { name: 'Bob', className: 'text-sky-700' }
+];
+
+/** Grid placement of each lane: public steps span the diagram, Eve shares the wire column. */
+const laneColumns: Record<DhLane, string> = {
+  public: 'col-span-3',
+  alice: 'col-start-1',
+  wire: 'col-start-2',
+  eve: 'col-start-2',
+  bob: 'col-start-3'
+};
+
+const laneStyles: Record<DhLane, string> = {
+  public: 'bg-gray-50 border-gray-200',
+  alice: 'bg-rose-50 border-rose-200',
+  wire: 'bg-amber-50 border-amber-200',
+  eve: 'bg-amber-50 border-amber-300 border-dashed',
+  bob: 'bg-sky-50 border-sky-200'
+};
+
+const shortNumber = (value: Extract<TraceValue, { type: 'number' }>): string =>
+  value.bits <= 64 ? value.value : `${value.value.slice(0, 8)}… (${value.bits} bits)`;
+
+const isDhStep = (step: Step): step is DhStep => step.kind === 'dh';
+
+/**
+ * Diffie-Hellman steps drawn as a sequence diagram: Alice and Bob each keep a
+ * lane, the middle lane is the open wire Eve reads, and every step so far
+ * stays on screen with the current one highlighted. The full values of the
+ * current step follow underneath.
+ */
+const DhSequence: React.FC<StepRendererProps> = ({ step, history }) => {
+  const rows = history.filter(isDhStep);
+  return (
+    <>
+      <div className="mt-4 grid grid-cols-3 gap-2 text-sm">
+        {lanes.map((lane) => (
+          <div key={lane.name} className={`text-center font-semibold border-b pb-1 ${lane.className}`}>
+            {lane.name}
+          </div>
+        ))}
+        {rows.map((row, index) => {
+          const numbers = row.values.filter((value): value is Extract<TraceValue, { type: 'number' }> => value.type === 'number');
+          return (
+            <div
+              key={index}
+              className={`${laneColumns[row.lane]} rounded border p-2 ${laneStyles[row.lane]} ${
+                row === step ? 'ring-2 ring-orange-400' : 'opacity-70'
+              }`}
+            >
+              <div className="flex items-center gap-1 font-medium">
+                {row.lane === 'eve' && <Eye className="w-3 h-3" />}
+                {row.title}
+              </div>
+              {numbers.map((value) => (
+                <div key={value.label} className="font-mono text-xs break-all">
+                  {value.label} = {shortNumber(value)}
+                </div>
+              ))}
+            </div>
+          );
+        })}
+      </div>
+      <StepBody step={step} history={history} />
+    </>
+  );
+};
+
+export default DhSequence;
@@ -0,0 +1,33 @@
+import React from 'react';
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ENCODINGS, Encoding } from '@/lib/crypto/encoding';
+
+interface EncodingSelectProps {
+  id: string;
+  label: string;
+  value: Encoding;
+  onChange: (encoding: Encoding) => void;
+}
+
+const EncodingSelect: React.FC<EncodingSelectProps> = ({ id, label, value, onChange }) => {
+  return (
+    <div>
+      <Label htmlFor={id} className="text-sm font-medium">{label}</Label>
+      <Select value={value} onValueChange={(encoding) => onChange(encoding as Encoding)}>
+        <SelectTrigger id={id} className="mt-2">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(ENCODINGS) as Encoding[]).map((key) => (
+            <SelectItem key={key} value={key}>
+              {ENCODINGS[key].name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+};
+
+export default EncodingSelect;
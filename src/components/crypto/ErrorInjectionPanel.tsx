@@ -0,0 +1,237 @@
+import React, { useMemo, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertTriangle, Check, Play, RotateCcw, Shuffle, Zap } from 'lucide-react';
+import TraceValueView from './TraceValueView';
+import {
+  DETECTION_SAMPLE_BYTES,
+  DetectionRate,
+  ERROR_DETECTORS,
+  ErrorDetector,
+  SweepPattern,
+  differingBits,
+  flipBit,
+  formatRate,
+  injectBurst,
+  swapBytes,
+  sweepDetection
+} from '@/lib/crypto/detection';
+import { tableValue } from '@/lib/crypto/trace';
+
+interface ErrorInjectionPanelProps {
+  detector: ErrorDetector;
+  /** The data as sent; its check value is the one the corrupted copy must still match. */
+  data: Uint8Array;
+}
+
+/** Bytes drawn as clickable bits; swaps and bursts can still reach the rest. */
+const VISIBLE_BYTES = 32;
+
+const SWEEP_TRIALS = 1000;
+
+const parseIndex = (text: string): number => (/^\d+$/.test(text) ? Number(text) : NaN);
+
+const hexValue = (value: number): string => `0x${value.toString(16)}`;
+
+interface Sweep {
+  errorBits: number;
+  pattern: SweepPattern;
+  detectors: ErrorDetector[];
+  rates: DetectionRate[];
+}
+
+/**
+ * Lets the user corrupt the processed data by hand and see whether the
+ * selected check still verifies, and sweeps random errors over every byte
+ * check to measure how many each one catches.
+ */
+const ErrorInjectionPanel: React.FC<ErrorInjectionPanelProps> = ({ detector, data }) => {
+  const [corrupted, setCorrupted] = useState(data);
+  const [swapIndex, setSwapIndex] = useState('0');
+  const [burstStart, setBurstStart] = useState('0');
+  const [burstLength, setBurstLength] = useState('8');
+  const [errorBits, setErrorBits] = useState('3');
+  const [pattern, setPattern] = useState<SweepPattern>('random');
+  const [sweep, setSweep] = useState<Sweep | null>(null);
+  const [sweepError, setSweepError] = useState<string | null>(null);
+
+  const totalBits = data.length * 8;
+  const flipped = useMemo(() => differingBits(data, corrupted), [data, corrupted]);
+  const sent = useMemo(() => detector.compute(data), [detector, data]);
+  const received = useMemo(() => detector.compute(corrupted), [detector, corrupted]);
+  const detected = received !== sent;
+
+  const swap = parseIndex(swapIndex);
+  const start = parseIndex(burstStart);
+  const length = parseIndex(burstLength);
+  const canSwap = swap + 1 < data.length;
+  const canBurst = start < totalBits && length >= 1;
+
+  const runSweep = () => {
+    const bits = parseIndex(errorBits);
+    // A custom CRC is not among the presets, so it joins the sweep alongside them.
+    const detectors = ERROR_DETECTORS.filter((candidate) => candidate.alphabet === 'bytes');
+    if (!detectors.some((candidate) => candidate.id === detector.id)) detectors.push(detector);
+    try {
+      setSweep({ errorBits: bits, pattern, detectors, rates: sweepDetection(data, detectors, bits, SWEEP_TRIALS, pattern) });
+      setSweepError(null);
+    } catch (error) {
+      setSweep(null);
+      setSweepError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3">
+        <p className="text-sm text-gray-600">
+          Click bits to flip them{data.length > VISIBLE_BYTES ? ` (the first ${VISIBLE_BYTES} of ${data.length} bytes are shown)` : ''}.
+          Flipped bits are red.
+        </p>
+        <div className="flex flex-wrap gap-2 font-mono text-xs">
+          {Array.from(corrupted.slice(0, VISIBLE_BYTES), (byte, index) => (
+            <div key={index} className="flex flex-col items-center gap-1">
+              <div className="flex">
+                {Array.from({ length: 8 }, (_, j) => {
+                  const bit = index * 8 + j;
+                  return (
+                    <button
+                      key={j}
+                      type="button"
+                      title={`Byte ${index}, bit ${j}`}
+                      onClick={() => setCorrupted((current) => flipBit(current, bit))}
+                      className={`w-4 h-6 border ${
+                        flipped.includes(bit)
+                          ? 'bg-red-100 border-red-400 text-red-800 font-semibold'
+                          : 'bg-blue-50 border-blue-200 text-blue-900 hover:bg-blue-100'
+                      }`}
+                    >
+                      {(byte >>> (7 - j)) & 1}
+                    </button>
+                  );
+                })}
+              </div>
+              <span className={byte !== data[index] ? 'text-red-700' : 'text-gray-500'}>{byte.toString(16).padStart(2, '0')}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-4">
+        <div className="flex items-end gap-2">
+          <div>
+            <Label htmlFor="swap-index">Swap byte</Label>
+            <Input id="swap-index" value={swapIndex} onChange={(e) => setSwapIndex(e.target.value)} className="mt-2 w-20 font-mono" />
+          </div>
+          <Button
+            onClick={() => setCorrupted((current) => swapBytes(current, swap))}
+            disabled={!canSwap}
+            variant="outline"
+            className="flex items-center gap-2"
+          >
+            <Shuffle className="w-4 h-4" />
+            Swap with next
+          </Button>
+        </div>
+        <div className="flex items-end gap-2">
+          <div>
+            <Label htmlFor="burst-start">Burst from bit</Label>
+            <Input id="burst-start" value={burstStart} onChange={(e) => setBurstStart(e.target.value)} className="mt-2 w-20 font-mono" />
+          </div>
+          <div>
+            <Label htmlFor="burst-length">Length</Label>
+            <Input id="burst-length" value={burstLength} onChange={(e) => setBurstLength(e.target.value)} className="mt-2 w-20 font-mono" />
+          </div>
+          <Button
+            onClick={() => setCorrupted((current) => injectBurst(current, start, length))}
+            disabled={!canBurst}
+            variant="outline"
+            className="flex items-center gap-2"
+          >
+            <Zap className="w-4 h-4" />
+            Inject burst
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <Badge variant="outline" className="font-mono">Sent {detector.name}: {hexValue(sent)}</Badge>
+        <Badge variant="outline" className="font-mono">Recomputed: {hexValue(received)}</Badge>
+        {flipped.length === 0 ? (
+          <Badge variant="outline" className="bg-gray-50 text-gray-700">No errors injected</Badge>
+        ) : (
+          <Badge
+            variant="outline"
+            className={`flex items-center gap-1 ${detected ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'}`}
+          >
+            {detected ? <Check className="w-3 h-3" /> : <AlertTriangle className="w-3 h-3" />}
+            {detected
+              ? `Error detected: ${flipped.length} flipped bit${flipped.length === 1 ? '' : 's'}`
+              : `Still verifies: ${flipped.length} flipped bit${flipped.length === 1 ? '' : 's'} went unnoticed`}
+          </Badge>
+        )}
+        <Button
+          onClick={() => setCorrupted(data)}
+          disabled={flipped.length === 0}
+          variant="outline"
+          size="sm"
+          className="flex items-center gap-2"
+        >
+          <RotateCcw className="w-4 h-4" />
+          Restore data
+        </Button>
+      </div>
+
+      <div className="border-t pt-6 space-y-4">
+        <div>
+          <h4 className="font-medium text-gray-800">Random error sweep</h4>
+          <p className="text-sm text-gray-600">
+            Applies {SWEEP_TRIALS} random errors to {data.length > DETECTION_SAMPLE_BYTES ? `the first ${DETECTION_SAMPLE_BYTES} bytes` : 'the data'} and
+            counts how many each check catches. Every check sees the same errors.
+          </p>
+        </div>
+        <div className="flex flex-wrap items-end gap-2">
+          <div>
+            <Label htmlFor="sweep-bits">Bits per error</Label>
+            <Input id="sweep-bits" value={errorBits} onChange={(e) => setErrorBits(e.target.value)} className="mt-2 w-24 font-mono" />
+          </div>
+          <div>
+            <Label htmlFor="sweep-pattern">Error shape</Label>
+            <Select value={pattern} onValueChange={(value) => setPattern(value as SweepPattern)}>
+              <SelectTrigger id="sweep-pattern" className="mt-2 w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="random">Bits anywhere</SelectItem>
+                <SelectItem value="burst">Burst of that length</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <Button onClick={runSweep} disabled={Number.isNaN(parseIndex(errorBits))} className="flex items-center gap-2">
+            <Play className="w-4 h-4" />
+            Run sweep
+          </Button>
+        </div>
+        {sweepError && <p className="text-sm text-red-600">{sweepError}</p>}
+        {sweep && (
+          <TraceValueView
+            value={tableValue(
+              sweep.pattern === 'burst' ? `Bursts of ${sweep.errorBits} bits` : `Errors of ${sweep.errorBits} random bits`,
+              ['Check', 'Size', 'Detected'],
+              sweep.detectors.map((candidate, i) => [
+                candidate.id === detector.id ? `${candidate.name} (this run)` : candidate.name,
+                candidate.size,
+                formatRate(sweep.rates[i])
+              ])
+            )}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ErrorInjectionPanel;
@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Dices, KeyRound } from 'lucide-react';
+import {
+  KEY_LENGTHS,
+  KeyedAlgorithm,
+  PBKDF2_ITERATIONS,
+  deriveKeyFromPassphrase,
+  describeKeySize,
+  generateRandomHex,
+  validateKey,
+} from '@/lib/crypto/keys';
+
+interface KeyInputProps {
+  algorithm: KeyedAlgorithm;
+  value: string;
+  onChange: (key: string) => void;
+}
+
+const KeyInput: React.FC<KeyInputProps> = ({ algorithm, value, onChange }) => {
+  const lengths = KEY_LENGTHS[algorithm];
+  const [keyLength, setKeyLength] = useState(lengths[0]);
+  const [passphrase, setPassphrase] = useState('');
+  const [salt, setSalt] = useState('crypto-visual-explorer');
+  const [isDeriving, setIsDeriving] = useState(false);
+  const [deriveError, setDeriveError] = useState('');
+
+  const keyError = value ? validateKey(algorithm, value) : 'A key is required';
+
+  const handleDerive = async () => {
+    setIsDeriving(true);
+    setDeriveError('');
+    try {
+      onChange(await deriveKeyFromPassphrase(passphrase, salt, keyLength));
+    } catch (error) {
+      setDeriveError(error instanceof Error ? error.message : 'Key derivation failed');
+    } finally {
+      setIsDeriving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <Label htmlFor="key-hex" className="text-base font-medium">Key (hex)</Label>
+        <Input
+          id="key-hex"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          className="mt-2 font-mono"
+        />
+        {keyError ? (
+          <p className="text-sm text-red-600 mt-1">{keyError}</p>
+        ) : (
+          <p className="text-sm text-gray-500 mt-1">{describeKeySize(algorithm, value.replace(/\s+/g, '').length / 2)} key</p>
+        )}
+      </div>
+
+      {lengths.length > 1 && (
+        <div>
+          <Label className="text-sm font-medium">Key size for generation</Label>
+          <RadioGroup
+            value={String(keyLength)}
+            onValueChange={(length) => setKeyLength(Number(length))}
+            className="mt-2 flex gap-4"
+          >
+            {lengths.map((length) => (
+              <div key={length} className="flex items-center space-x-2">
+                <RadioGroupItem value={String(length)} id={`key-length-${length}`} />
+                <Label htmlFor={`key-length-${length}`}>{describeKeySize(algorithm, length)}</Label>
+              </div>
+            ))}
+          </RadioGroup>
+        </div>
+      )}
+
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => onChange(generateRandomHex(keyLength))}
+        className="flex items-center gap-2"
+      >
+        <Dices className="w-4 h-4" />
+        Generate Random Key
+      </Button>
+
+      <div className="space-y-2">
+        <Label htmlFor="key-passphrase" className="text-sm font-medium">Derive from passphrase</Label>
+        <Input
+          id="key-passphrase"
+          type="password"
+          placeholder="Passphrase"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+        />
+        <Input
+          id="key-salt"
+          placeholder="Salt"
+          value={salt}
+          onChange={(e) => setSalt(e.target.value)}
+        />
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          disabled={!passphrase || isDeriving}
+          onClick={handleDerive}
+          className="flex items-center gap-2"
+        >
+          <KeyRound className="w-4 h-4" />
+          {isDeriving ? 'Deriving...' : 'Derive Key'}
+        </Button>
+        <p className="text-xs text-gray-500">
+          PBKDF2-HMAC-SHA256 with {PBKDF2_ITERATIONS.toLocaleString()} iterations
+        </p>
+        {deriveError && <p className="text-sm text-red-600">{deriveError}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default KeyInput;
@@ -0,0 +1,54 @@
+import React from 'react';
+
+interface LaneGridProps {
+  lanes: string[][];
+  highlight?: number[];
+  rateLanes?: number;
+}
+
+/**
+ * The 5×5 lane view of a Keccak state, a larger cousin of the AES state
+ * matrix. Rate lanes are tinted blue and capacity lanes grey; the lanes a
+ * step changed or read are highlighted.
+ */
+const LaneGrid: React.FC<LaneGridProps> = ({ lanes, highlight = [], rateLanes }) => {
+  return (
+    <div className="overflow-x-auto">
+      <div className="inline-grid grid-cols-[auto_repeat(5,minmax(0,1fr))] gap-1 font-mono text-xs">
+        <div />
+        {lanes[0]?.map((_, x) => (
+          <div key={`x${x}`} className="text-center text-gray-500">x = {x}</div>
+        ))}
+        {lanes.flatMap((row, y) => [
+          <div key={`y${y}`} className="pr-1 flex items-center text-gray-500">y = {y}</div>,
+          ...row.map((lane, x) => {
+            const index = x + 5 * y;
+            const isRate = rateLanes === undefined || index < rateLanes;
+            return (
+              <div
+                key={index}
+                title={`Lane (${x}, ${y})${rateLanes !== undefined ? (isRate ? ', rate' : ', capacity') : ''}`}
+                className={`px-2 py-1 rounded border ${
+                  highlight.includes(index)
+                    ? 'bg-amber-100 border-amber-400 text-amber-900 font-semibold'
+                    : isRate
+                      ? 'bg-blue-50 border-blue-200 text-blue-900'
+                      : 'bg-gray-100 border-gray-300 text-gray-600'
+                }`}
+              >
+                {lane}
+              </div>
+            );
+          })
+        ])}
+      </div>
+      {rateLanes !== undefined && (
+        <p className="mt-1 text-xs text-gray-500">
+          {rateLanes} rate lanes (blue) · {25 - rateLanes} capacity lanes (grey)
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default LaneGrid;
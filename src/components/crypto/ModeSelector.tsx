@@ -0,0 +1,129 @@
+import React from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dices } from 'lucide-react';
+import { CIPHER_MODES, CipherMode, ivLengthFor, modesForBlockSize, validateIv } from '@/lib/crypto/modes';
+import { generateRandomHex } from '@/lib/crypto/keys';
+import { PADDING_SCHEMES, PaddingScheme } from '@/lib/crypto/padding';
+
+interface ModeSelectorProps {
+  blockSize: number;
+  mode: CipherMode;
+  iv: string;
+  aad: string;
+  padding: PaddingScheme;
+  onModeChange: (mode: CipherMode) => void;
+  onIvChange: (iv: string) => void;
+  onAadChange: (aad: string) => void;
+  onPaddingChange: (padding: PaddingScheme) => void;
+}
+
+const ModeSelector: React.FC<ModeSelectorProps> = ({
+  blockSize,
+  mode,
+  iv,
+  aad,
+  padding,
+  onModeChange,
+  onIvChange,
+  onAadChange,
+  onPaddingChange
+}) => {
+  const info = CIPHER_MODES[mode];
+  const ivLength = ivLengthFor(mode, blockSize);
+  const ivError = info.needsIv ? validateIv(iv, ivLength) : null;
+
+  const handleModeChange = (value: CipherMode) => {
+    if (ivLengthFor(value, blockSize) !== ivLength) {
+      onIvChange(generateRandomHex(ivLengthFor(value, blockSize)));
+    }
+    onModeChange(value);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <Label className="text-base font-medium">Mode of Operation</Label>
+        <Select value={mode} onValueChange={(value) => handleModeChange(value as CipherMode)}>
+          <SelectTrigger className="mt-2">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {modesForBlockSize(blockSize).map((key) => (
+              <SelectItem key={key} value={key}>
+                {CIPHER_MODES[key].name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-sm text-gray-500 mt-1">{info.description}</p>
+      </div>
+
+      {!info.stream && (
+        <div>
+          <Label className="text-sm font-medium">Padding</Label>
+          <Select value={padding} onValueChange={(value) => onPaddingChange(value as PaddingScheme)}>
+            <SelectTrigger className="mt-2">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(PADDING_SCHEMES) as PaddingScheme[]).map((key) => (
+                <SelectItem key={key} value={key}>
+                  {PADDING_SCHEMES[key].name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-sm text-gray-500 mt-1">{PADDING_SCHEMES[padding].description}</p>
+        </div>
+      )}
+
+      {info.needsIv && (
+        <div>
+          <Label htmlFor="iv-hex" className="text-sm font-medium">
+            {mode === 'ctr' ? 'Initial Counter Block (hex)' : 'Initialization Vector (hex)'}
+          </Label>
+          <div className="flex gap-2 mt-2">
+            <Input
+              id="iv-hex"
+              value={iv}
+              onChange={(e) => onIvChange(e.target.value)}
+              className="font-mono"
+            />
+            <Button
+              type="button"
+              variant="outline"
+              size="icon"
+              onClick={() => onIvChange(generateRandomHex(ivLength))}
+              title="Generate random IV"
+            >
+              <Dices className="w-4 h-4" />
+            </Button>
+          </div>
+          {ivError && <p className="text-sm text-red-600 mt-1">{ivError}</p>}
+          <p className="text-xs text-gray-500 mt-1">Decrypting needs the same IV that was used to encrypt.</p>
+        </div>
+      )}
+
+      {info.authenticated && (
+        <div>
+          <Label htmlFor="aad-text" className="text-sm font-medium">Additional Authenticated Data (text)</Label>
+          <Input
+            id="aad-text"
+            placeholder="e.g. message header"
+            value={aad}
+            onChange={(e) => onAadChange(e.target.value)}
+            className="mt-2"
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            Authenticated by the tag but not encrypted. Decryption fails unless it matches exactly.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ModeSelector;
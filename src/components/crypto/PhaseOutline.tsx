@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import type { Step } from '@/lib/crypto/types';
+
+interface PhaseOutlineProps {
+  steps: Step[];
+  currentStep: number;
+  onSelect: (index: number) => void;
+}
+
+interface PhaseNode {
+  name: string;
+  path: string;
+  first: number;
+  last: number;
+  children: PhaseNode[];
+}
+
+/** Builds the tree of groups from consecutive steps that share a group prefix. */
+const buildTree = (steps: Step[]): PhaseNode[] => {
+  const roots: PhaseNode[] = [];
+  steps.forEach((step, index) => {
+    let siblings = roots;
+    let path = '';
+    (step.group ?? []).forEach((name) => {
+      path = `${path}/${name}`;
+      let node = siblings[siblings.length - 1];
+      if (!node || node.path !== path || node.last !== index - 1) {
+        node = { name, path, first: index, last: index, children: [] };
+        siblings.push(node);
+      }
+      node.last = index;
+      siblings = node.children;
+    });
+  });
+  return roots;
+};
+
+/**
+ * Collapsible outline of the nested phases of a trace, such as the blocks and
+ * passes of Triple DES. The phase holding the current step opens by itself;
+ * clicking a phase name jumps to its first step.
+ */
+const PhaseOutline: React.FC<PhaseOutlineProps> = ({ steps, currentStep, onSelect }) => {
+  const [toggled, setToggled] = useState<Record<string, boolean>>({});
+  const tree = buildTree(steps);
+  if (tree.length === 0) return null;
+
+  const renderNode = (node: PhaseNode) => {
+    const isCurrent = currentStep >= node.first && currentStep <= node.last;
+    const key = `${node.path}@${node.first}`;
+    const isOpen = toggled[key] ?? isCurrent;
+    return (
+      <Collapsible key={key} open={isOpen} onOpenChange={(open) => setToggled((prev) => ({ ...prev, [key]: open }))}>
+        <div className={`flex items-center gap-1 rounded px-1 ${isCurrent ? 'bg-blue-50 text-blue-800' : 'text-gray-700'}`}>
+          {node.children.length > 0 ? (
+            <CollapsibleTrigger className="p-0.5" aria-label={isOpen ? `Collapse ${node.name}` : `Expand ${node.name}`}>
+              {isOpen ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+            </CollapsibleTrigger>
+          ) : (
+            <span className="w-4" />
+          )}
+          <button type="button" className="flex-1 text-left hover:underline" onClick={() => onSelect(node.first)}>
+            {node.name}
+          </button>
+          <span className="text-xs text-gray-500">
+            steps {node.first + 1}–{node.last + 1}
+          </span>
+        </div>
+        {node.children.length > 0 && (
+          <CollapsibleContent className="ml-4 border-l pl-2">
+            {node.children.map(renderNode)}
+          </CollapsibleContent>
+        )}
+      </Collapsible>
+    );
+  };
+
+  return (
+    <div className="max-h-64 overflow-auto rounded-lg border p-2 text-sm">
+      {tree.map(renderNode)}
+    </div>
+  );
+};
+
+export default PhaseOutline;
@@ -0,0 +1,27 @@
+import React from 'react';
+
+interface StateMatrixProps {
+  matrix: number[][];
+}
+
+const StateMatrix: React.FC<StateMatrixProps> = ({ matrix }) => {
+  return (
+    <div
+      className="inline-grid gap-1 font-mono text-sm"
+      style={{ gridTemplateColumns: `repeat(${matrix[0]?.length ?? 0}, minmax(0, 1fr))` }}
+    >
+      {matrix.flatMap((row, rowIndex) =>
+        row.map((value, colIndex) => (
+          <div
+            key={`${rowIndex}-${colIndex}`}
+            className="w-10 h-10 flex items-center justify-center rounded bg-blue-50 border border-blue-200 text-blue-900"
+          >
+            {value.toString(16).padStart(2, '0')}
+          </div>
+        ))
+      )}
+    </div>
+  );
+};
+
+export default StateMatrix;
@@ -0,0 +1,28 @@
+import React from 'react';
+import { Badge } from "@/components/ui/badge";
+import TraceValueView from './TraceValueView';
+import type { StepRendererProps } from '../algorithms/types';
+
+/** Default step renderer: every trace value of the step, in order. */
+const StepBody: React.FC<StepRendererProps> = ({ step }) => {
+  if (step.values.length === 0) return null;
+  return (
+    <div className="mt-4 space-y-3">
+      {step.values.map((value, index) => (
+        <TraceValueView key={index} value={value} />
+      ))}
+    </div>
+  );
+};
+
+/** Adds a round marker above the values of ciphers whose steps carry a round number. */
+export const RoundStepBody: React.FC<StepRendererProps> = ({ step, history }) => (
+  <>
+    {'round' in step && step.round !== undefined && (
+      <Badge variant="secondary" className="mt-2">Round {step.round}</Badge>
+    )}
+    <StepBody step={step} history={history} />
+  </>
+);
+
+export default StepBody;
@@ -5,14 +5,6 @@ import { ArrowDown } from 'lucide-react';
 // Export the ArrowDown icon from lucide-react
 export { ArrowDown };
 
-// Create and export the afterMixColumnsMatrix variable
-export const afterMixColumnsMatrix = [
-  [0x00, 0x00, 0x00, 0x00],
-  [0x00, 0x00, 0x00, 0x00],
-  [0x00, 0x00, 0x00, 0x00],
-  [0x00, 0x00, 0x00, 0x00]
-];
-
 // This component doesn't render anything itself
 const StepVisualizerHelper = () => {
   return null;
@@ -0,0 +1,116 @@
+import React from 'react';
+import { Info, CheckCircle2, AlertTriangle } from 'lucide-react';
+import StateMatrix from './StateMatrix';
+import ByteRow from './ByteRow';
+import CurvePlot from './CurvePlot';
+import LaneGrid from './LaneGrid';
+import CodewordRow from './CodewordRow';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { groupBits } from '@/lib/crypto/trace';
+import type { TraceValue } from '@/lib/crypto/types';
+
+interface TraceValueViewProps {
+  value: TraceValue;
+}
+
+const toneStyles = {
+  info: { icon: Info, className: 'bg-blue-50 border-blue-200 text-blue-800' },
+  success: { icon: CheckCircle2, className: 'bg-emerald-50 border-emerald-200 text-emerald-800' },
+  warning: { icon: AlertTriangle, className: 'bg-amber-50 border-amber-300 text-amber-900' }
+};
+
+const TraceValueView: React.FC<TraceValueViewProps> = ({ value }) => {
+  switch (value.type) {
+    case 'matrix':
+      return (
+        <div>
+          <p className="mb-2 text-sm text-gray-600">{value.label}:</p>
+          <StateMatrix matrix={value.rows} />
+        </div>
+      );
+    case 'bytes':
+      return (
+        <div>
+          <p className="mb-2 text-sm text-gray-600">{value.label}:</p>
+          <ByteRow bytes={value.bytes} highlight={value.highlight} />
+        </div>
+      );
+    case 'bits':
+      return (
+        <p className="font-mono text-sm break-all">
+          <span className="text-gray-600">{value.label}:</span> {groupBits(value.bits)}
+        </p>
+      );
+    case 'key':
+      return (
+        <p className="font-mono text-sm break-all">
+          <span className="text-gray-600">{value.label}:</span>{' '}
+          <span className="px-1 rounded bg-violet-50 text-violet-800">{value.hex}</span>
+        </p>
+      );
+    case 'number':
+      return (
+        <p className="font-mono text-sm break-all">
+          <span className="text-gray-600">{value.label} ({value.bits} bits):</span> {value.value}
+        </p>
+      );
+    case 'table':
+      return (
+        <div>
+          <p className="mb-2 text-sm text-gray-600">{value.label}:</p>
+          <div className="max-h-80 overflow-auto rounded border">
+            <Table className="font-mono text-xs">
+              <TableHeader>
+                <TableRow>
+                  {value.columns.map((column) => (
+                    <TableHead key={column}>{column}</TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {value.rows.map((row, rowIndex) => (
+                  <TableRow key={rowIndex}>
+                    {row.map((cell, cellIndex) => (
+                      <TableCell key={cellIndex} className="py-1 break-all">{cell}</TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      );
+    case 'points':
+      return (
+        <div>
+          <p className="mb-2 text-sm text-gray-600">{value.label}:</p>
+          <CurvePlot modulus={value.modulus} points={value.points} marked={value.marked} />
+        </div>
+      );
+    case 'lanes':
+      return (
+        <div>
+          <p className="mb-2 text-sm text-gray-600">{value.label}:</p>
+          <LaneGrid lanes={value.lanes} highlight={value.highlight} rateLanes={value.rateLanes} />
+        </div>
+      );
+    case 'codeword':
+      return (
+        <div>
+          <p className="mb-2 text-sm text-gray-600">{value.label}:</p>
+          <CodewordRow bits={value.bits} positions={value.positions} parity={value.parity} highlight={value.highlight} />
+        </div>
+      );
+    case 'annotation': {
+      const { icon: Icon, className } = toneStyles[value.tone];
+      return (
+        <div className={`flex items-start gap-2 p-3 rounded-lg border text-sm ${className}`}>
+          <Icon className="w-4 h-4 mt-0.5 shrink-0" />
+          <span>{value.text}</span>
+        </div>
+      );
+    }
+  }
+};
+
+export default TraceValueView;
@@ -0,0 +1,99 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { Algorithm, Action, ProcessOptions } from '@/components/algorithms';
+import { reviveError } from '@/lib/crypto/errors';
+import type { RoundTrip, Step } from '@/lib/crypto/types';
+import type { RunRequest, WorkerMessage } from '@/workers/protocol';
+
+interface TraceState {
+  steps: Step[];
+  result: string;
+  roundTrip?: RoundTrip;
+  /** Fraction of the engine's work done, from 0 to 1. */
+  progress: number;
+  isRunning: boolean;
+}
+
+const initialState: TraceState = { steps: [], result: '', progress: 0, isRunning: true };
+
+/** A finished run: engines with random keys or nonces give a different trace each time, so reviews replay this. */
+export type TraceReplay = Pick<TraceState, 'steps' | 'result' | 'roundTrip'>;
+
+/**
+ * Generates the step trace in a web worker so long inputs don't block the UI.
+ * Steps arrive in batches while the engine runs; `cancel` stops the worker.
+ * With a `replay`, no worker is started and the finished trace is returned.
+ */
+export function useTraceWorker(
+  algorithm: Algorithm,
+  input: string,
+  action: Action,
+  options: ProcessOptions,
+  onError: (error: Error) => void,
+  replay?: TraceReplay
+) {
+  const [state, setState] = useState<TraceState>(initialState);
+  const workerRef = useRef<Worker | null>(null);
+
+  const cancel = useCallback(() => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    setState((prev) => ({ ...prev, isRunning: false }));
+  }, []);
+
+  useEffect(() => {
+    if (replay) return;
+    const worker = new Worker(new URL('../workers/trace.worker.ts', import.meta.url), { type: 'module' });
+    workerRef.current = worker;
+    setState(initialState);
+
+    // Batches are appended here and published at most once per frame; copying the
+    // whole trace for every batch would make long inputs quadratic on the main thread.
+    const trace: Step[] = [];
+    let frame: number | null = null;
+    const publish = () => {
+      if (frame !== null) cancelAnimationFrame(frame);
+      frame = null;
+      setState((prev) => ({ ...prev, steps: trace.slice() }));
+    };
+
+    worker.onmessage = ({ data }: MessageEvent<WorkerMessage>) => {
+      switch (data.type) {
+        case 'steps':
+          trace.push(...data.steps);
+          if (frame === null) frame = requestAnimationFrame(publish);
+          break;
+        case 'progress':
+          setState((prev) => ({ ...prev, progress: data.fraction }));
+          break;
+        case 'done':
+          worker.terminate();
+          publish();
+          setState((prev) => ({ ...prev, result: data.result, roundTrip: data.roundTrip, progress: 1, isRunning: false }));
+          break;
+        case 'error':
+          worker.terminate();
+          publish();
+          setState((prev) => ({ ...prev, isRunning: false }));
+          onError(reviveError(data));
+          break;
+      }
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      setState((prev) => ({ ...prev, isRunning: false }));
+      onError(new Error(event.message || 'The trace worker failed to start'));
+    };
+
+    const request: RunRequest = { algorithm, input, action, options };
+    worker.postMessage(request);
+
+    return () => {
+      worker.terminate();
+      if (frame !== null) cancelAnimationFrame(frame);
+      if (workerRef.current === worker) workerRef.current = null;
+    };
+  }, [algorithm, input, action, options, onError, replay]);
+
+  if (replay) return { ...replay, progress: 1, isRunning: false, cancel };
+  return { ...state, cancel };
+}
@@ -0,0 +1,252 @@
+import { fromHex, toHex } from './bytes';
+import { BlockCipher, BlockCipherOptions, runBlockCipher } from './modes';
+import { keyValue, matrixValue } from './trace';
+import type { AesOperation, EngineResult, Step } from './types';
+
+export const AES_BLOCK_SIZE = 16;
+
+// FIPS-197 Appendix B example key, used until the user supplies one.
+export const DEFAULT_AES_KEY = fromHex('2b7e151628aed2a6abf7158809cf4f3c');
+
+const SBOX = [
+  0x63, 0x7c, 0x77, 0x7b, 0xf2, 0x6b, 0x6f, 0xc5, 0x30, 0x01, 0x67, 0x2b, 0xfe, 0xd7, 0xab, 0x76,
+  0xca, 0x82, 0xc9, 0x7d, 0xfa, 0x59, 0x47, 0xf0, 0xad, 0xd4, 0xa2, 0xaf, 0x9c, 0xa4, 0x72, 0xc0,
+  0xb7, 0xfd, 0x93, 0x26, 0x36, 0x3f, 0xf7, 0xcc, 0x34, 0xa5, 0xe5, 0xf1, 0x71, 0xd8, 0x31, 0x15,
+  0x04, 0xc7, 0x23, 0xc3, 0x18, 0x96, 0x05, 0x9a, 0x07, 0x12, 0x80, 0xe2, 0xeb, 0x27, 0xb2, 0x75,
+  0x09, 0x83, 0x2c, 0x1a, 0x1b, 0x6e, 0x5a, 0xa0, 0x52, 0x3b, 0xd6, 0xb3, 0x29, 0xe3, 0x2f, 0x84,
+  0x53, 0xd1, 0x00, 0xed, 0x20, 0xfc, 0xb1, 0x5b, 0x6a, 0xcb, 0xbe, 0x39, 0x4a, 0x4c, 0x58, 0xcf,
+  0xd0, 0xef, 0xaa, 0xfb, 0x43, 0x4d, 0x33, 0x85, 0x45, 0xf9, 0x02, 0x7f, 0x50, 0x3c, 0x9f, 0xa8,
+  0x51, 0xa3, 0x40, 0x8f, 0x92, 0x9d, 0x38, 0xf5, 0xbc, 0xb6, 0xda, 0x21, 0x10, 0xff, 0xf3, 0xd2,
+  0xcd, 0x0c, 0x13, 0xec, 0x5f, 0x97, 0x44, 0x17, 0xc4, 0xa7, 0x7e, 0x3d, 0x64, 0x5d, 0x19, 0x73,
+  0x60, 0x81, 0x4f, 0xdc, 0x22, 0x2a, 0x90, 0x88, 0x46, 0xee, 0xb8, 0x14, 0xde, 0x5e, 0x0b, 0xdb,
+  0xe0, 0x32, 0x3a, 0x0a, 0x49, 0x06, 0x24, 0x5c, 0xc2, 0xd3, 0xac, 0x62, 0x91, 0x95, 0xe4, 0x79,
+  0xe7, 0xc8, 0x37, 0x6d, 0x8d, 0xd5, 0x4e, 0xa9, 0x6c, 0x56, 0xf4, 0xea, 0x65, 0x7a, 0xae, 0x08,
+  0xba, 0x78, 0x25, 0x2e, 0x1c, 0xa6, 0xb4, 0xc6, 0xe8, 0xdd, 0x74, 0x1f, 0x4b, 0xbd, 0x8b, 0x8a,
+  0x70, 0x3e, 0xb5, 0x66, 0x48, 0x03, 0xf6, 0x0e, 0x61, 0x35, 0x57, 0xb9, 0x86, 0xc1, 0x1d, 0x9e,
+  0xe1, 0xf8, 0x98, 0x11, 0x69, 0xd9, 0x8e, 0x94, 0x9b, 0x1e, 0x87, 0xe9, 0xce, 0x55, 0x28, 0xdf,
+  0x8c, 0xa1, 0x89, 0x0d, 0xbf, 0xe6, 0x42, 0x68, 0x41, 0x99, 0x2d, 0x0f, 0xb0, 0x54, 0xbb, 0x16,
+];
+
+const INV_SBOX = SBOX.reduce<number[]>((inv, value, index) => {
+  inv[value] = index;
+  return inv;
+}, []);
+
+const RCON = [0x01, 0x02, 0x04, 0x08, 0x10, 0x20, 0x40, 0x80, 0x1b, 0x36];
+
+const ROUNDS_BY_KEY_LENGTH: Record<number, number> = { 16: 10, 24: 12, 32: 14 };
+
+export const aesRounds = (keyLength: number): number => {
+  const rounds = ROUNDS_BY_KEY_LENGTH[keyLength];
+  if (!rounds) {
+    throw new Error(`AES keys must be 16, 24 or 32 bytes long, got ${keyLength}`);
+  }
+  return rounds;
+};
+
+const xtime = (b: number): number => ((b << 1) ^ (b & 0x80 ? 0x1b : 0)) & 0xff;
+
+const gmul = (a: number, b: number): number => {
+  let product = 0;
+  while (b) {
+    if (b & 1) product ^= a;
+    a = xtime(a);
+    b >>= 1;
+  }
+  return product;
+};
+
+/**
+ * Expands the cipher key into Nr + 1 round keys of 16 bytes each
+ * (FIPS-197 section 5.2).
+ */
+export const expandKey = (key: Uint8Array): Uint8Array[] => {
+  const nk = key.length / 4;
+  const rounds = aesRounds(key.length);
+  const words: number[][] = [];
+
+  for (let i = 0; i < nk; i++) {
+    words.push(Array.from(key.slice(i * 4, i * 4 + 4)));
+  }
+  for (let i = nk; i < 4 * (rounds + 1); i++) {
+    let temp = [...words[i - 1]];
+    if (i % nk === 0) {
+      temp = [temp[1], temp[2], temp[3], temp[0]].map((b) => SBOX[b]);
+      temp[0] ^= RCON[i / nk - 1];
+    } else if (nk > 6 && i % nk === 4) {
+      temp = temp.map((b) => SBOX[b]);
+    }
+    words.push(words[i - nk].map((b, j) => b ^ temp[j]));
+  }
+
+  const roundKeys: Uint8Array[] = [];
+  for (let round = 0; round <= rounds; round++) {
+    roundKeys.push(Uint8Array.from(words.slice(round * 4, round * 4 + 4).flat()));
+  }
+  return roundKeys;
+};
+
+// The state is kept column-major like FIPS-197: byte index = row + 4 * column.
+export const stateToMatrix = (state: Uint8Array): number[][] =>
+  [0, 1, 2, 3].map((row) => [0, 1, 2, 3].map((col) => state[row + 4 * col]));
+
+const subBytes = (state: Uint8Array, box: number[]): Uint8Array => state.map((b) => box[b]);
+
+const shiftRows = (state: Uint8Array, direction: 1 | -1): Uint8Array => {
+  const out = new Uint8Array(16);
+  for (let row = 0; row < 4; row++) {
+    for (let col = 0; col < 4; col++) {
+      out[row + 4 * col] = state[row + 4 * ((col + direction * row + 4) % 4)];
+    }
+  }
+  return out;
+};
+
+const mixColumns = (state: Uint8Array, coefficients: number[]): Uint8Array => {
+  const out = new Uint8Array(16);
+  for (let col = 0; col < 4; col++) {
+    const column = state.slice(col * 4, col * 4 + 4);
+    for (let row = 0; row < 4; row++) {
+      let value = 0;
+      for (let k = 0; k < 4; k++) {
+        value ^= gmul(coefficients[(k - row + 4) % 4], column[k]);
+      }
+      out[row + 4 * col] = value;
+    }
+  }
+  return out;
+};
+
+const MIX_COLUMNS = [0x02, 0x03, 0x01, 0x01];
+const INV_MIX_COLUMNS = [0x0e, 0x0b, 0x0d, 0x09];
+
+const addRoundKey = (state: Uint8Array, roundKey: Uint8Array): Uint8Array =>
+  state.map((b, i) => b ^ roundKey[i]);
+
+type BlockOperation = Exclude<AesOperation, 'keyExpansion'>;
+
+const stepDescriptions: Record<BlockOperation, string> = {
+  input: 'The 16 input bytes are loaded column by column into the 4x4 state array.',
+  addRoundKey: 'Each state byte is XORed with the matching byte of the round key.',
+  subBytes: 'Every byte is replaced by its S-box entry: the multiplicative inverse in GF(2^8) followed by an affine transform.',
+  invSubBytes: 'Every byte is replaced by its entry in the inverse S-box, undoing SubBytes.',
+  shiftRows: 'Row r is rotated left by r positions so that each column mixes bytes from four different columns.',
+  invShiftRows: 'Row r is rotated right by r positions, undoing ShiftRows.',
+  mixColumns: 'Each column is multiplied by the fixed polynomial {03}x^3 + {01}x^2 + {01}x + {02} modulo x^4 + 1.',
+  invMixColumns: 'Each column is multiplied by the inverse polynomial {0b}x^3 + {0d}x^2 + {09}x + {0e} modulo x^4 + 1.',
+};
+
+const tracer = (steps: Step[], label: string, roundKeys: Uint8Array[]) =>
+  (operation: BlockOperation, round: number | undefined, title: string, state: Uint8Array) => {
+    const values = [matrixValue('State', stateToMatrix(state))];
+    if (operation === 'addRoundKey') {
+      values.push(keyValue(`Round key ${round}`, roundKeys[round]));
+    }
+    steps.push({
+      kind: 'aes',
+      operation,
+      round,
+      title: `${label}${title}`,
+      description: stepDescriptions[operation],
+      values,
+    });
+  };
+
+/**
+ * Encrypts a single 16-byte block, appending a step with the resulting
+ * state matrix after every transformation.
+ */
+export const encryptBlock = (
+  block: Uint8Array,
+  roundKeys: Uint8Array[],
+  steps: Step[] = [],
+  label = ''
+): Uint8Array => {
+  const rounds = roundKeys.length - 1;
+  const record = tracer(steps, label, roundKeys);
+
+  let state = Uint8Array.from(block);
+  record('input', undefined, 'Input State', state);
+  state = addRoundKey(state, roundKeys[0]);
+  record('addRoundKey', 0, 'Round 0: AddRoundKey', state);
+
+  for (let round = 1; round <= rounds; round++) {
+    state = subBytes(state, SBOX);
+    record('subBytes', round, `Round ${round}: SubBytes`, state);
+    state = shiftRows(state, 1);
+    record('shiftRows', round, `Round ${round}: ShiftRows`, state);
+    if (round !== rounds) {
+      state = mixColumns(state, MIX_COLUMNS);
+      record('mixColumns', round, `Round ${round}: MixColumns`, state);
+    }
+    state = addRoundKey(state, roundKeys[round]);
+    record('addRoundKey', round, `Round ${round}: AddRoundKey`, state);
+  }
+
+  steps[steps.length - 1].result = toHex(state);
+  return state;
+};
+
+/**
+ * Decrypts a single 16-byte block with the inverse cipher
+ * (FIPS-197 section 5.3), tracing each inverse transformation.
+ */
+export const decryptBlock = (
+  block: Uint8Array,
+  roundKeys: Uint8Array[],
+  steps: Step[] = [],
+  label = ''
+): Uint8Array => {
+  const rounds = roundKeys.length - 1;
+  const record = tracer(steps, label, roundKeys);
+
+  let state = Uint8Array.from(block);
+  record('input', undefined, 'Input State', state);
+  state = addRoundKey(state, roundKeys[rounds]);
+  record('addRoundKey', rounds, `Round ${rounds}: AddRoundKey`, state);
+
+  for (let round = rounds - 1; round >= 0; round--) {
+    state = shiftRows(state, -1);
+    record('invShiftRows', round, `Round ${round}: InvShiftRows`, state);
+    state = subBytes(state, INV_SBOX);
+    record('invSubBytes', round, `Round ${round}: InvSubBytes`, state);
+    state = addRoundKey(state, roundKeys[round]);
+    record('addRoundKey', round, `Round ${round}: AddRoundKey`, state);
+    if (round !== 0) {
+      state = mixColumns(state, INV_MIX_COLUMNS);
+      record('invMixColumns', round, `Round ${round}: InvMixColumns`, state);
+    }
+  }
+
+  steps[steps.length - 1].result = toHex(state);
+  return state;
+};
+
+export const createAesCipher = (roundKeys: Uint8Array[]): BlockCipher => ({
+  blockSize: AES_BLOCK_SIZE,
+  encryptBlock: (block, steps, label) => encryptBlock(block, roundKeys, steps, label),
+  decryptBlock: (block, steps, label) => decryptBlock(block, roundKeys, steps, label),
+});
+
+/**
+ * Runs AES over the whole input in the chosen mode of operation (ECB by
+ * default). Encryption returns hex ciphertext; decryption expects it.
+ */
+export const runAes = (
+  input: string,
+  direction: 'encrypt' | 'decrypt',
+  { key = DEFAULT_AES_KEY, ...modeOptions }: BlockCipherOptions = {},
+  steps: Step[] = []
+): EngineResult => {
+  const roundKeys = expandKey(key);
+  steps.push(
+    {
+      kind: 'aes',
+      operation: 'keyExpansion',
+      title: 'Key Expansion',
+      description: `The ${key.length * 8}-bit key is expanded into ${roundKeys.length} round keys for ${roundKeys.length - 1} rounds.`,
+      values: [keyValue('Cipher key', key), ...roundKeys.map((roundKey, round) => keyValue(`Round key ${round}`, roundKey))],
+    },
+  );
+  return runBlockCipher(createAesCipher(roundKeys), input, direction, modeOptions, steps);
+};
@@ -0,0 +1,150 @@
+/** Number of bits needed to write n in binary (0 for n = 0). */
+export const bitLength = (n: bigint): number => (n === 0n ? 0 : n.toString(2).length);
+
+export const mod = (a: bigint, m: bigint): bigint => ((a % m) + m) % m;
+
+export const bytesToBigInt = (bytes: ArrayLike<number>): bigint =>
+  Array.from(bytes).reduce((acc, byte) => (acc << 8n) | BigInt(byte), 0n);
+
+/** Big-endian encoding of n in exactly `length` bytes. */
+export const bigIntToBytes = (n: bigint, length: number): Uint8Array => {
+  const bytes = new Uint8Array(length);
+  let value = n;
+  for (let i = length - 1; i >= 0; i--) {
+    bytes[i] = Number(value & 0xffn);
+    value >>= 8n;
+  }
+  return bytes;
+};
+
+/** A uniformly random integer of at most `bits` bits from the platform CSPRNG. */
+export const randomBits = (bits: number): bigint => {
+  const bytes = new Uint8Array(Math.ceil(bits / 8));
+  crypto.getRandomValues(bytes);
+  return bytesToBigInt(bytes) & ((1n << BigInt(bits)) - 1n);
+};
+
+/** A uniformly random integer in [min, max], by rejection sampling. */
+export const randomInRange = (min: bigint, max: bigint): bigint => {
+  const range = max - min + 1n;
+  const bits = bitLength(range);
+  let value: bigint;
+  do {
+    value = randomBits(bits);
+  } while (value >= range);
+  return min + value;
+};
+
+export interface SquareMultiplyRow {
+  bit: number;
+  squared: bigint;
+  result: bigint;
+}
+
+/**
+ * Left-to-right square-and-multiply: for each exponent bit the running value
+ * is squared, and multiplied by the base when the bit is 1. When `rows` is
+ * given, one row per bit is recorded.
+ */
+export const modPow = (base: bigint, exponent: bigint, modulus: bigint, rows?: SquareMultiplyRow[]): bigint => {
+  if (modulus === 1n) return 0n;
+  const b = mod(base, modulus);
+  let result = 1n;
+  for (const digit of exponent.toString(2)) {
+    const squared = (result * result) % modulus;
+    result = digit === '1' ? (squared * b) % modulus : squared;
+    rows?.push({ bit: Number(digit), squared, result });
+  }
+  return result;
+};
+
+export interface EuclidRow {
+  quotient: bigint;
+  remainder: bigint;
+  s: bigint;
+  t: bigint;
+}
+
+/**
+ * Extended Euclidean algorithm: returns g = gcd(a, b) and x, y with
+ * a·x + b·y = g, recording each division when `rows` is given.
+ */
+export const extendedGcd = (a: bigint, b: bigint, rows?: EuclidRow[]): { gcd: bigint; x: bigint; y: bigint } => {
+  let [oldR, r] = [a, b];
+  let [oldS, s] = [1n, 0n];
+  let [oldT, t] = [0n, 1n];
+  while (r !== 0n) {
+    const quotient = oldR / r;
+    [oldR, r] = [r, oldR - quotient * r];
+    [oldS, s] = [s, oldS - quotient * s];
+    [oldT, t] = [t, oldT - quotient * t];
+    rows?.push({ quotient, remainder: r, s, t });
+  }
+  return { gcd: oldR, x: oldS, y: oldT };
+};
+
+export const gcd = (a: bigint, b: bigint): bigint => extendedGcd(a, b).gcd;
+
+/** The inverse of a modulo m; throws when a and m share a factor. */
+export const modInverse = (a: bigint, m: bigint, rows?: EuclidRow[]): bigint => {
+  const { gcd: g, x } = extendedGcd(mod(a, m), m, rows);
+  if (g !== 1n) {
+    throw new Error(`${a} has no inverse modulo ${m} because they share the factor ${g}`);
+  }
+  return mod(x, m);
+};
+
+export interface MillerRabinRound {
+  witness: bigint;
+  /** a^d mod n followed by each successive squaring that was needed. */
+  sequence: bigint[];
+  passed: boolean;
+}
+
+/**
+ * Miller-Rabin probabilistic primality test with random witnesses. Stops at
+ * the first witness that proves n composite.
+ */
+export const millerRabin = (n: bigint, rounds: number): { probablePrime: boolean; rounds: MillerRabinRound[] } => {
+  if (n < 4n) return { probablePrime: n === 2n || n === 3n, rounds: [] };
+  if (n % 2n === 0n) return { probablePrime: false, rounds: [] };
+
+  let d = n - 1n;
+  let s = 0;
+  while (d % 2n === 0n) {
+    d /= 2n;
+    s++;
+  }
+
+  const results: MillerRabinRound[] = [];
+  for (let i = 0; i < rounds; i++) {
+    const witness = randomInRange(2n, n - 2n);
+    let x = modPow(witness, d, n);
+    const sequence = [x];
+    let passed = x === 1n || x === n - 1n;
+    for (let r = 1; r < s && !passed; r++) {
+      x = (x * x) % n;
+      sequence.push(x);
+      passed = x === n - 1n;
+    }
+    results.push({ witness, sequence, passed });
+    if (!passed) return { probablePrime: false, rounds: results };
+  }
+  return { probablePrime: true, rounds: results };
+};
+
+/** Odd primes below 1000, used to discard most candidates before Miller-Rabin. */
+export const SMALL_PRIMES: bigint[] = (() => {
+  const primes: bigint[] = [];
+  for (let n = 3; n < 1000; n += 2) {
+    if (primes.every((p) => n % Number(p) !== 0)) primes.push(BigInt(n));
+  }
+  return primes;
+})();
+
+export const hasSmallFactor = (n: bigint): bigint | null =>
+  SMALL_PRIMES.find((p) => p < n && n % p === 0n) ?? null;
+
+/** Reads a decimal or 0x-prefixed hexadecimal integer, or returns null when the text is neither. */
+export const parseBigInt = (text: string): bigint | null =>
+  /^(\d+|0x[0-9a-f]+)$/i.test(text.trim()) ? BigInt(text.trim()) : null;
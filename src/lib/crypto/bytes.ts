@@ -0,0 +1,48 @@
+const encoder = new TextEncoder();
+const decoder = new TextDecoder('utf-8', { fatal: true });
+
+export const utf8ToBytes = (text: string): Uint8Array => encoder.encode(text);
+
+export const bytesToUtf8 = (bytes: Uint8Array): string => decoder.decode(bytes);
+
+/** Decodes bytes as UTF-8 text, falling back to hex when they are not valid UTF-8. */
+export const bytesToText = (bytes: Uint8Array): string => {
+  try {
+    return bytesToUtf8(bytes);
+  } catch {
+    return toHex(bytes);
+  }
+};
+
+export const toHex = (bytes: ArrayLike<number>, separator = ''): string =>
+  Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join(separator);
+
+export const fromHex = (hex: string): Uint8Array => {
+  const clean = hex.replace(/\s+/g, '').toLowerCase();
+  if (clean.length % 2 !== 0 || /[^0-9a-f]/.test(clean)) {
+    throw new Error('Expected an even number of hexadecimal digits');
+  }
+  const bytes = new Uint8Array(clean.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(clean.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+};
+
+export const xorBytes = (a: Uint8Array, b: Uint8Array): Uint8Array => {
+  const out = new Uint8Array(a.length);
+  for (let i = 0; i < a.length; i++) {
+    out[i] = a[i] ^ b[i];
+  }
+  return out;
+};
+
+export const concatBytes = (...parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
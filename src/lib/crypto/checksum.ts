@@ -0,0 +1,124 @@
+import { fromHex } from './bytes';
+import { Encoding, decodeText } from './encoding';
+import { reportProgress } from './stream';
+import { annotation, bitsValue, bytesValue } from './trace';
+import type { EngineResult, Step } from './types';
+
+const toWordHex = (value: number): string => value.toString(16).padStart(4, '0');
+
+const toWordBits = (value: number): string => value.toString(2).padStart(16, '0');
+
+/** Splits data into big-endian 16-bit words, zero-padding an odd final byte. */
+const toWords = (data: Uint8Array): number[] => {
+  const words: number[] = [];
+  for (let i = 0; i < data.length; i += 2) {
+    words.push((data[i] << 8) | (data[i + 1] ?? 0));
+  }
+  return words;
+};
+
+/** Computes the Internet checksum without tracing. */
+export const internetChecksum = (data: Uint8Array): number => {
+  const sum = toWords(data).reduce((total, word) => {
+    const raw = total + word;
+    return (raw & 0xffff) + (raw >>> 16);
+  }, 0);
+  return ~sum & 0xffff;
+};
+
+/**
+ * Adds the words with end-around carry (RFC 1071), tracing each running sum.
+ * Returns the folded 16-bit one's complement sum.
+ */
+const onesComplementSum = (words: number[], labels: string[], steps: Step[]): number => {
+  let sum = 0;
+  words.forEach((word, index) => {
+    const raw = sum + word;
+    sum = (raw & 0xffff) + (raw >>> 16);
+    const carried = raw > 0xffff;
+    steps.push({
+      kind: 'checksum',
+      operation: 'add',
+      title: `Add ${labels[index]}`,
+      description: carried
+        ? `0x${toWordHex(raw - word)} + 0x${toWordHex(word)} = 0x${raw.toString(16)} overflows 16 bits, so the carry is folded back into the low bit: 0x${toWordHex(sum)}.`
+        : `0x${toWordHex(raw - word)} + 0x${toWordHex(word)} = 0x${toWordHex(sum)}.`,
+      values: [bitsValue(labels[index], toWordBits(word)), bitsValue('Running sum', toWordBits(sum))],
+      result: toWordHex(sum),
+    });
+    reportProgress(steps, index + 1, words.length);
+  });
+  return sum;
+};
+
+const divisionStep = (data: Uint8Array, words: number[]): Step => ({
+  kind: 'checksum',
+  operation: 'divide',
+  title: 'Word Division',
+  description: `The ${data.length} input bytes are split into ${words.length} 16-bit words${
+    data.length % 2 === 1 ? ', padding the odd final byte with a zero byte' : ''
+  }: ${words.map(toWordHex).join(' ')}.`,
+  values: [bytesValue('Data', data)],
+});
+
+/**
+ * Computes the RFC 1071 Internet checksum of the input, or verifies it
+ * against an expected checksum by summing data and checksum together.
+ */
+export const runChecksum = (
+  input: string,
+  direction: 'generate' | 'verify',
+  expectedChecksum = '',
+  inputEncoding: Encoding = 'utf8',
+  steps: Step[] = []
+): EngineResult => {
+  const data = decodeText(input, inputEncoding);
+  const words = toWords(data);
+  steps.push(divisionStep(data, words));
+  const labels = words.map((_, index) => `Word ${index + 1}`);
+
+  if (direction === 'generate') {
+    const sum = onesComplementSum(words, labels, steps);
+    const checksum = ~sum & 0xffff;
+    steps.push({
+      kind: 'checksum',
+      operation: 'complement',
+      title: "One's Complement",
+      description: `Inverting every bit of the sum 0x${toWordHex(sum)} gives the checksum 0x${toWordHex(checksum)}.`,
+      values: [bitsValue('Checksum', toWordBits(checksum))],
+      result: toWordHex(checksum),
+    });
+    return { steps, result: toWordHex(checksum) };
+  }
+
+  const expected = fromHex(expectedChecksum.replace(/^0x/i, ''));
+  if (expected.length !== 2) {
+    throw new Error('The checksum to verify must be 4 hexadecimal digits');
+  }
+  const checksumWord = (expected[0] << 8) | expected[1];
+  steps.push({
+    kind: 'checksum',
+    operation: 'appendChecksum',
+    title: 'Append Checksum',
+    description: `The received checksum 0x${toWordHex(checksumWord)} is added as one more word, so a correct checksum makes the total 0xffff.`,
+    values: [bitsValue('Checksum', toWordBits(checksumWord))],
+  });
+
+  const sum = onesComplementSum([...words, checksumWord], [...labels, 'Checksum'], steps);
+  const verification = ~sum & 0xffff;
+  const valid = verification === 0;
+  steps.push({
+    kind: 'checksum',
+    operation: 'complement',
+    title: "One's Complement",
+    description: valid
+      ? `The complement of 0x${toWordHex(sum)} is 0x0000: the data matches its checksum.`
+      : `The complement of 0x${toWordHex(sum)} is 0x${toWordHex(verification)}, not zero: the data or checksum was corrupted.`,
+    values: [
+      bitsValue('Complement', toWordBits(verification)),
+      valid ? annotation('All bits are zero: no error detected.', 'success') : annotation('Non-zero result: an error was detected.', 'warning'),
+    ],
+    result: toWordHex(verification),
+  });
+  return { steps, result: `${toWordHex(verification)} (${valid ? 'valid' : 'invalid'})` };
+};
@@ -0,0 +1,266 @@
+/** Cyclic redundancy checks in the Rocksoft parameter model used by the CRC catalogue. */
+import { utf8ToBytes, toHex } from './bytes';
+import { Encoding, decodeText } from './encoding';
+import { reportProgress } from './stream';
+import { annotation, bytesValue, tableValue } from './trace';
+import type { CrcOperation, CrcStep, EngineResult, Step } from './types';
+
+export interface CrcParameters {
+  name: string;
+  /** Register size in bits, from 8 to 32. */
+  width: number;
+  /** The generator polynomial without its leading x^width term. */
+  poly: number;
+  init: number;
+  /** Whether each input byte is reflected (read least significant bit first). */
+  refin: boolean;
+  /** Whether the final register is reflected before xorout. */
+  refout: boolean;
+  xorout: number;
+  /** The CRC of the nine ASCII bytes "123456789", as listed in the catalogue. */
+  check?: number;
+}
+
+export type CrcPresetId = 'crc8' | 'crc16-ccitt' | 'crc32' | 'crc32c';
+
+export const CRC_PRESETS: Record<CrcPresetId, CrcParameters> = {
+  crc8: { name: 'CRC-8 (SMBus)', width: 8, poly: 0x07, init: 0x00, refin: false, refout: false, xorout: 0x00, check: 0xf4 },
+  'crc16-ccitt': {
+    name: 'CRC-16/CCITT-FALSE',
+    width: 16,
+    poly: 0x1021,
+    init: 0xffff,
+    refin: false,
+    refout: false,
+    xorout: 0x0000,
+    check: 0x29b1,
+  },
+  crc32: {
+    name: 'CRC-32 (Ethernet, zip, PNG)',
+    width: 32,
+    poly: 0x04c11db7,
+    init: 0xffffffff,
+    refin: true,
+    refout: true,
+    xorout: 0xffffffff,
+    check: 0xcbf43926,
+  },
+  crc32c: {
+    name: 'CRC-32C (Castagnoli, iSCSI)',
+    width: 32,
+    poly: 0x1edc6f41,
+    init: 0xffffffff,
+    refin: true,
+    refout: true,
+    xorout: 0xffffffff,
+    check: 0xe3069283,
+  },
+};
+
+export const CHECK_INPUT = '123456789';
+
+export type CrcImplementation = 'bitwise' | 'table';
+
+const SUPERSCRIPTS = '⁰¹²³⁴⁵⁶⁷⁸⁹';
+
+/** Writes the generator, including its implicit top term, as a polynomial such as x⁸ + x² + x + 1. */
+export const polynomialText = (width: number, poly: number): string => {
+  const power = (n: number) => (n === 0 ? '1' : n === 1 ? 'x' : `x${[...String(n)].map((digit) => SUPERSCRIPTS[Number(digit)]).join('')}`);
+  const terms = [power(width)];
+  for (let bit = width - 1; bit >= 0; bit--) {
+    if ((poly >>> bit) & 1) terms.push(power(bit));
+  }
+  return terms.join(' + ');
+};
+
+/** Reverses the order of the low `bits` bits of a value. */
+const reflect = (value: number, bits: number): number => {
+  let reflected = 0;
+  for (let i = 0; i < bits; i++) {
+    reflected = (reflected << 1) | ((value >>> i) & 1);
+  }
+  return reflected >>> 0;
+};
+
+const maskOf = (width: number): number => (width === 32 ? 0xffffffff : (1 << width) - 1);
+
+/** Formats a register value with one hex digit per four bits of width. */
+export const crcHex = (value: number, width: number): string => (value >>> 0).toString(16).padStart(Math.ceil(width / 4), '0');
+
+/** Rejects parameters the engine cannot model, such as a polynomial wider than the register. */
+export const validateCrcParameters = ({ width, poly, init, xorout }: CrcParameters): string | null => {
+  if (!Number.isInteger(width) || width < 8 || width > 32) return 'Width must be between 8 and 32 bits';
+  const mask = maskOf(width);
+  if ((poly & ~mask) !== 0 || (init & ~mask) !== 0 || (xorout & ~mask) !== 0) {
+    return `Polynomial, init and xorout must fit in ${width} bits`;
+  }
+  return null;
+};
+
+/** One bit of polynomial division: shift the register left and subtract (XOR) the generator when a 1 falls off the top. */
+const shiftBit = (register: number, bit: number, { width, poly }: CrcParameters): { register: number; feedback: number } => {
+  const feedback = ((register >>> (width - 1)) & 1) ^ bit;
+  const shifted = ((register << 1) & maskOf(width)) >>> 0;
+  return { register: feedback ? (shifted ^ poly) >>> 0 : shifted, feedback };
+};
+
+/** The 256 register values that eight shifts of each possible top byte leave behind. */
+export const crcTable = (parameters: CrcParameters): number[] =>
+  Array.from({ length: 256 }, (_, index) => {
+    let register = (index << (parameters.width - 8)) >>> 0;
+    for (let i = 0; i < 8; i++) register = shiftBit(register, 0, parameters).register;
+    return register;
+  });
+
+/** Applies refout and xorout to the register left after the last byte. */
+const finalize = (register: number, { width, refout, xorout }: CrcParameters): number =>
+  ((refout ? reflect(register, width) : register) ^ xorout) >>> 0;
+
+/** Computes a CRC without tracing, a byte at a time; callers hashing many messages can pass the table in. */
+export const crc = (data: Uint8Array, parameters: CrcParameters, table = crcTable(parameters)): number => {
+  const { width, refin } = parameters;
+  let register = parameters.init;
+  data.forEach((byte) => {
+    const index = ((register >>> (width - 8)) ^ (refin ? reflect(byte, 8) : byte)) & 0xff;
+    register = ((((register << 8) & maskOf(width)) >>> 0) ^ table[index]) >>> 0;
+  });
+  return finalize(register, parameters);
+};
+
+export interface CrcOptions {
+  parameters?: CrcParameters;
+  implementation?: CrcImplementation;
+  inputEncoding?: Encoding;
+}
+
+/**
+ * Computes a CRC as polynomial long division over GF(2), one step per input
+ * byte: either shifting bit by bit or looking the byte up in a precomputed
+ * table. Verification compares the result with a received CRC.
+ */
+export const runCrc = (
+  input: string,
+  direction: 'generate' | 'verify',
+  expectedCrc = '',
+  { parameters = CRC_PRESETS.crc32, implementation = 'bitwise', inputEncoding = 'utf8' }: CrcOptions = {},
+  steps: Step[] = []
+): EngineResult => {
+  const invalid = validateCrcParameters(parameters);
+  if (invalid) throw new Error(invalid);
+  const { name, width, poly, init, refin, refout, xorout, check } = parameters;
+  const hex = (value: number) => `0x${crcHex(value, width)}`;
+  const push = (operation: CrcOperation, step: Omit<CrcStep, 'kind' | 'operation'>) => {
+    steps.push({ kind: 'crc', operation, ...step });
+  };
+  const data = decodeText(input, inputEncoding);
+
+  const checkValue = crc(utf8ToBytes(CHECK_INPUT), parameters);
+  push('parameters', {
+    title: 'CRC Parameters',
+    description: `The message is treated as a polynomial over GF(2) and divided by the degree-${width} generator ${polynomialText(width, poly)}. The ${width}-bit remainder is the CRC.`,
+    values: [
+      tableValue(name, ['Parameter', 'Value'], [
+        ['Width', String(width)],
+        ['Poly', `${hex(poly)} (${polynomialText(width, poly)})`],
+        ['Init', hex(init)],
+        ['RefIn', refin ? 'true' : 'false'],
+        ['RefOut', refout ? 'true' : 'false'],
+        ['XorOut', hex(xorout)],
+      ]),
+      bytesValue('Data', data),
+      check === undefined
+        ? annotation(`CRC of "${CHECK_INPUT}" with these parameters: ${hex(checkValue)}.`)
+        : checkValue === check
+          ? annotation(`The CRC of "${CHECK_INPUT}" is ${hex(checkValue)}, matching the catalogue check value.`, 'success')
+          : annotation(`The CRC of "${CHECK_INPUT}" is ${hex(checkValue)}, not the catalogue check value ${hex(check)}.`, 'warning'),
+    ],
+  });
+
+  const table = implementation === 'table' ? crcTable(parameters) : [];
+  if (implementation === 'table') {
+    push('table', {
+      title: 'Lookup Table',
+      description: 'Entry i is what eight division steps leave when the top byte of the register is i and nothing else is set. Because division is linear over GF(2), a whole byte can then be handled with one lookup and one XOR.',
+      values: [
+        tableValue('Table', ['', ...Array.from({ length: 8 }, (_, column) => `+${column}`)], Array.from({ length: 32 }, (_, row) => [
+          `0x${(row * 8).toString(16).padStart(2, '0')}`,
+          ...table.slice(row * 8, row * 8 + 8).map((entry) => crcHex(entry, width)),
+        ])),
+      ],
+    });
+  }
+
+  let register = init;
+  data.forEach((byte, index) => {
+    const value = refin ? reflect(byte, 8) : byte;
+    const reflected = refin ? ` (reflected to 0x${value.toString(16).padStart(2, '0')}, since RefIn reads bits least significant first)` : '';
+    const before = register;
+    if (implementation === 'table') {
+      const lookup = ((register >>> (width - 8)) ^ value) & 0xff;
+      register = ((((register << 8) & maskOf(width)) >>> 0) ^ table[lookup]) >>> 0;
+      push('byte', {
+        title: `Byte ${index + 1}: 0x${byte.toString(16).padStart(2, '0')}`,
+        description: `The top byte of the register is XORed with the input byte${reflected} to pick table entry 0x${lookup.toString(16).padStart(2, '0')}; the register shifts left eight bits and absorbs that entry.`,
+        values: [
+          tableValue('Lookup', ['Register', 'Index', 'Entry', 'New register'], [[hex(before), `0x${lookup.toString(16).padStart(2, '0')}`, hex(table[lookup]), hex(register)]]),
+        ],
+        result: crcHex(register, width),
+      });
+    } else {
+      const rows: string[][] = [];
+      for (let i = 7; i >= 0; i--) {
+        const bit = (value >>> i) & 1;
+        const shifted = shiftBit(register, bit, parameters);
+        register = shifted.register;
+        rows.push([String(7 - i), String(bit), shifted.feedback ? `XOR ${hex(poly)}` : 'shift only', hex(register)]);
+      }
+      push('byte', {
+        title: `Byte ${index + 1}: 0x${byte.toString(16).padStart(2, '0')}`,
+        description: `Eight division steps${reflected}. Each shifts the register left; when the bit leaving the top differs from the incoming bit, the generator is subtracted, which in GF(2) is an XOR.`,
+        values: [tableValue('Division', ['Step', 'Input bit', 'Action', 'Register'], [['', '', 'start', hex(before)], ...rows])],
+        result: crcHex(register, width),
+      });
+    }
+    reportProgress(steps, index + 1, data.length);
+  });
+
+  const result = finalize(register, parameters);
+  push('finalize', {
+    title: 'Final CRC',
+    description: `${refout ? 'The register is reflected (RefOut) and' : 'The register is'} XORed with ${hex(xorout)} to give the ${width}-bit CRC.`,
+    values: [
+      tableValue('Finalization', ['Stage', 'Value'], [
+        ['Register', hex(register)],
+        ...(refout ? [['Reflected', hex(reflect(register, width))]] : []),
+        ['XOR XorOut', hex(result)],
+      ]),
+      ...(toHex(data) === toHex(utf8ToBytes(CHECK_INPUT)) && check !== undefined
+        ? [
+          result === check
+            ? annotation(`Matches the catalogue check value for "${CHECK_INPUT}".`, 'success')
+            : annotation(`Differs from the catalogue check value ${hex(check)}.`, 'warning'),
+        ]
+        : []),
+    ],
+    result: crcHex(result, width),
+  });
+  if (direction === 'generate') return { steps, result: crcHex(result, width) };
+
+  const expected = /^(0x)?[0-9a-f]{1,8}$/i.test(expectedCrc) ? Number.parseInt(expectedCrc.replace(/^0x/i, ''), 16) : NaN;
+  if (Number.isNaN(expected) || (expected & ~maskOf(width)) !== 0) {
+    throw new Error(`The CRC to verify must be at most ${Math.ceil(width / 4)} hexadecimal digits`);
+  }
+  const valid = expected >>> 0 === result;
+  push('compare', {
+    title: 'Compare CRC',
+    description: 'The receiver recomputes the CRC over the data it got and compares it with the CRC that came with it.',
+    values: [
+      tableValue('CRCs', ['', 'Value'], [['Received', hex(expected)], ['Computed', hex(result)]]),
+      valid
+        ? annotation('The CRCs match: no error detected.', 'success')
+        : annotation('The CRCs differ: the data or the CRC was corrupted.', 'warning'),
+    ],
+    result: valid ? 'valid' : 'invalid',
+  });
+  return { steps, result: `${crcHex(result, width)} (${valid ? 'valid' : 'invalid'})` };
+};
@@ -0,0 +1,302 @@
+import { fromHex, toHex } from './bytes';
+import { BlockCipher, BlockCipherOptions, CIPHER_MODES, runBlockCipher } from './modes';
+import { bitsValue, keyValue } from './trace';
+import type { DesOperation, EngineResult, Step, TraceValue } from './types';
+
+export const DES_BLOCK_SIZE = 8;
+
+// Key from the classic worked DES example (plaintext 0123456789abcdef -> 85e813540f0ab405).
+export const DEFAULT_DES_KEY = fromHex('133457799bbcdff1');
+
+export type Bits = number[];
+
+const IP = [
+  58, 50, 42, 34, 26, 18, 10, 2, 60, 52, 44, 36, 28, 20, 12, 4,
+  62, 54, 46, 38, 30, 22, 14, 6, 64, 56, 48, 40, 32, 24, 16, 8,
+  57, 49, 41, 33, 25, 17, 9, 1, 59, 51, 43, 35, 27, 19, 11, 3,
+  61, 53, 45, 37, 29, 21, 13, 5, 63, 55, 47, 39, 31, 23, 15, 7,
+];
+
+const FP = [
+  40, 8, 48, 16, 56, 24, 64, 32, 39, 7, 47, 15, 55, 23, 63, 31,
+  38, 6, 46, 14, 54, 22, 62, 30, 37, 5, 45, 13, 53, 21, 61, 29,
+  36, 4, 44, 12, 52, 20, 60, 28, 35, 3, 43, 11, 51, 19, 59, 27,
+  34, 2, 42, 10, 50, 18, 58, 26, 33, 1, 41, 9, 49, 17, 57, 25,
+];
+
+const E = [
+  32, 1, 2, 3, 4, 5, 4, 5, 6, 7, 8, 9,
+  8, 9, 10, 11, 12, 13, 12, 13, 14, 15, 16, 17,
+  16, 17, 18, 19, 20, 21, 20, 21, 22, 23, 24, 25,
+  24, 25, 26, 27, 28, 29, 28, 29, 30, 31, 32, 1,
+];
+
+const P = [
+  16, 7, 20, 21, 29, 12, 28, 17, 1, 15, 23, 26, 5, 18, 31, 10,
+  2, 8, 24, 14, 32, 27, 3, 9, 19, 13, 30, 6, 22, 11, 4, 25,
+];
+
+const PC1 = [
+  57, 49, 41, 33, 25, 17, 9, 1, 58, 50, 42, 34, 26, 18,
+  10, 2, 59, 51, 43, 35, 27, 19, 11, 3, 60, 52, 44, 36,
+  63, 55, 47, 39, 31, 23, 15, 7, 62, 54, 46, 38, 30, 22,
+  14, 6, 61, 53, 45, 37, 29, 21, 13, 5, 28, 20, 12, 4,
+];
+
+const PC2 = [
+  14, 17, 11, 24, 1, 5, 3, 28, 15, 6, 21, 10,
+  23, 19, 12, 4, 26, 8, 16, 7, 27, 20, 13, 2,
+  41, 52, 31, 37, 47, 55, 30, 40, 51, 45, 33, 48,
+  44, 49, 39, 56, 34, 53, 46, 42, 50, 36, 29, 32,
+];
+
+const KEY_SHIFTS = [1, 1, 2, 2, 2, 2, 2, 2, 1, 2, 2, 2, 2, 2, 2, 1];
+
+const SBOXES = [
+  [
+    14, 4, 13, 1, 2, 15, 11, 8, 3, 10, 6, 12, 5, 9, 0, 7,
+    0, 15, 7, 4, 14, 2, 13, 1, 10, 6, 12, 11, 9, 5, 3, 8,
+    4, 1, 14, 8, 13, 6, 2, 11, 15, 12, 9, 7, 3, 10, 5, 0,
+    15, 12, 8, 2, 4, 9, 1, 7, 5, 11, 3, 14, 10, 0, 6, 13,
+  ],
+  [
+    15, 1, 8, 14, 6, 11, 3, 4, 9, 7, 2, 13, 12, 0, 5, 10,
+    3, 13, 4, 7, 15, 2, 8, 14, 12, 0, 1, 10, 6, 9, 11, 5,
+    0, 14, 7, 11, 10, 4, 13, 1, 5, 8, 12, 6, 9, 3, 2, 15,
+    13, 8, 10, 1, 3, 15, 4, 2, 11, 6, 7, 12, 0, 5, 14, 9,
+  ],
+  [
+    10, 0, 9, 14, 6, 3, 15, 5, 1, 13, 12, 7, 11, 4, 2, 8,
+    13, 7, 0, 9, 3, 4, 6, 10, 2, 8, 5, 14, 12, 11, 15, 1,
+    13, 6, 4, 9, 8, 15, 3, 0, 11, 1, 2, 12, 5, 10, 14, 7,
+    1, 10, 13, 0, 6, 9, 8, 7, 4, 15, 14, 3, 11, 5, 2, 12,
+  ],
+  [
+    7, 13, 14, 3, 0, 6, 9, 10, 1, 2, 8, 5, 11, 12, 4, 15,
+    13, 8, 11, 5, 6, 15, 0, 3, 4, 7, 2, 12, 1, 10, 14, 9,
+    10, 6, 9, 0, 12, 11, 7, 13, 15, 1, 3, 14, 5, 2, 8, 4,
+    3, 15, 0, 6, 10, 1, 13, 8, 9, 4, 5, 11, 12, 7, 2, 14,
+  ],
+  [
+    2, 12, 4, 1, 7, 10, 11, 6, 8, 5, 3, 15, 13, 0, 14, 9,
+    14, 11, 2, 12, 4, 7, 13, 1, 5, 0, 15, 10, 3, 9, 8, 6,
+    4, 2, 1, 11, 10, 13, 7, 8, 15, 9, 12, 5, 6, 3, 0, 14,
+    11, 8, 12, 7, 1, 14, 2, 13, 6, 15, 0, 9, 10, 4, 5, 3,
+  ],
+  [
+    12, 1, 10, 15, 9, 2, 6, 8, 0, 13, 3, 4, 14, 7, 5, 11,
+    10, 15, 4, 2, 7, 12, 9, 5, 6, 1, 13, 14, 0, 11, 3, 8,
+    9, 14, 15, 5, 2, 8, 12, 3, 7, 0, 4, 10, 1, 13, 11, 6,
+    4, 3, 2, 12, 9, 5, 15, 10, 11, 14, 1, 7, 6, 0, 8, 13,
+  ],
+  [
+    4, 11, 2, 14, 15, 0, 8, 13, 3, 12, 9, 7, 5, 10, 6, 1,
+    13, 0, 11, 7, 4, 9, 1, 10, 14, 3, 5, 12, 2, 15, 8, 6,
+    1, 4, 11, 13, 12, 3, 7, 14, 10, 15, 6, 8, 0, 5, 9, 2,
+    6, 11, 13, 8, 1, 4, 10, 7, 9, 5, 0, 15, 14, 2, 3, 12,
+  ],
+  [
+    13, 2, 8, 4, 6, 15, 11, 1, 10, 9, 3, 14, 5, 0, 12, 7,
+    1, 15, 13, 8, 10, 3, 7, 4, 12, 5, 6, 11, 0, 14, 9, 2,
+    7, 11, 4, 1, 9, 12, 14, 2, 0, 6, 10, 13, 15, 3, 5, 8,
+    2, 1, 14, 7, 4, 10, 8, 13, 15, 12, 9, 0, 3, 5, 6, 11,
+  ],
+];
+
+const bytesToBits = (bytes: Uint8Array): Bits =>
+  Array.from(bytes).flatMap((b) => [7, 6, 5, 4, 3, 2, 1, 0].map((i) => (b >> i) & 1));
+
+export const bitsToBytes = (bits: Bits): Uint8Array => {
+  const bytes = new Uint8Array(bits.length / 8);
+  bits.forEach((bit, i) => {
+    bytes[i >> 3] |= bit << (7 - (i % 8));
+  });
+  return bytes;
+};
+
+export const bitString = (bits: Bits): string => bits.join('');
+
+const permute = (bits: Bits, table: number[]): Bits => table.map((position) => bits[position - 1]);
+
+const rotateLeft = (bits: Bits, count: number): Bits => [...bits.slice(count), ...bits.slice(0, count)];
+
+const xorBits = (a: Bits, b: Bits): Bits => a.map((bit, i) => bit ^ b[i]);
+
+/**
+ * Derives the sixteen 48-bit round keys: PC-1 drops the parity bits, the
+ * C and D halves are rotated per KEY_SHIFTS and PC-2 selects 48 bits.
+ */
+export const deriveSubkeys = (key: Uint8Array): Bits[] => {
+  if (key.length !== DES_BLOCK_SIZE) {
+    throw new Error(`DES keys must be 8 bytes long, got ${key.length}`);
+  }
+  const permuted = permute(bytesToBits(key), PC1);
+  let c = permuted.slice(0, 28);
+  let d = permuted.slice(28);
+  return KEY_SHIFTS.map((shift) => {
+    c = rotateLeft(c, shift);
+    d = rotateLeft(d, shift);
+    return permute([...c, ...d], PC2);
+  });
+};
+
+/**
+ * Runs one 64-bit block through IP, sixteen Feistel rounds and FP. The
+ * same routine decrypts when given the subkeys in reverse order.
+ */
+export const desBlock = (
+  block: Uint8Array,
+  subkeys: Bits[],
+  steps: Step[] = [],
+  label = ''
+): Uint8Array => {
+  const record = (
+    operation: DesOperation,
+    round: number | undefined,
+    title: string,
+    description: string,
+    left: Bits,
+    right: Bits,
+    extra: TraceValue[] = []
+  ) => {
+    steps.push({
+      kind: 'des',
+      operation,
+      round,
+      title: `${label}${title}`,
+      description,
+      values: [bitsValue('L', bitString(left)), bitsValue('R', bitString(right)), ...extra],
+    });
+  };
+
+  const input = bytesToBits(block);
+  const permuted = permute(input, IP);
+  let left = permuted.slice(0, 32);
+  let right = permuted.slice(32);
+  record(
+    'initialPermutation',
+    undefined,
+    'Initial Permutation',
+    'The 64 input bits are reordered by the IP table and split into L0 and R0.',
+    left,
+    right,
+    [bitsValue('Input', bitString(input))]
+  );
+
+  subkeys.forEach((subkey, index) => {
+    const round = index + 1;
+    const prefix = `Round ${round}: `;
+
+    const expanded = permute(right, E);
+    record(
+      'expansion',
+      round,
+      `${prefix}Expansion`,
+      `R${round - 1} is expanded from 32 to 48 bits by the E table, duplicating the edge bits of each 4-bit group.`,
+      left,
+      right,
+      [bitsValue('E(R)', bitString(expanded))]
+    );
+
+    const mixed = xorBits(expanded, subkey);
+    record(
+      'keyMixing',
+      round,
+      `${prefix}Key Mixing`,
+      `The expanded half is XORed with subkey K${round}.`,
+      left,
+      right,
+      [keyValue(`K${round}`, bitsToBytes(subkey)), bitsValue('E(R) XOR K', bitString(mixed))]
+    );
+
+    const substituted: Bits = [];
+    SBOXES.forEach((sbox, boxIndex) => {
+      const chunk = mixed.slice(boxIndex * 6, boxIndex * 6 + 6);
+      const row = (chunk[0] << 1) | chunk[5];
+      const col = (chunk[1] << 3) | (chunk[2] << 2) | (chunk[3] << 1) | chunk[4];
+      const value = sbox[row * 16 + col];
+      const output = [3, 2, 1, 0].map((i) => (value >> i) & 1);
+      substituted.push(...output);
+      record(
+        'sbox',
+        round,
+        `${prefix}S-box ${boxIndex + 1}`,
+        `Input ${bitString(chunk)}: outer bits select row ${row}, middle bits select column ${col}, giving ${value} = ${bitString(output)}.`,
+        left,
+        right,
+        [bitsValue('S-box output so far', bitString(substituted))]
+      );
+    });
+
+    const f = permute(substituted, P);
+    record(
+      'permutation',
+      round,
+      `${prefix}P Permutation`,
+      'The 32 S-box output bits are rearranged by the P table to give f(R, K).',
+      left,
+      right,
+      [bitsValue('f(R, K)', bitString(f))]
+    );
+
+    const nextRight = xorBits(left, f);
+    left = right;
+    right = nextRight;
+    record(
+      'swap',
+      round,
+      `${prefix}Swap`,
+      `L${round} = R${round - 1} and R${round} = L${round - 1} XOR f(R${round - 1}, K${round}).`,
+      left,
+      right
+    );
+  });
+
+  // The last round's swap is undone before the final permutation.
+  const preoutput = [...right, ...left];
+  const output = permute(preoutput, FP);
+  const result = bitsToBytes(output);
+  record(
+    'finalPermutation',
+    undefined,
+    'Final Permutation',
+    'The halves are joined as R16 L16 and reordered by the inverse of the initial permutation.',
+    right,
+    left,
+    [bitsValue('Output', bitString(output))]
+  );
+  steps[steps.length - 1].result = toHex(result);
+  return result;
+};
+
+export const createDesCipher = (subkeys: Bits[]): BlockCipher => {
+  const reversed = [...subkeys].reverse();
+  return {
+    blockSize: DES_BLOCK_SIZE,
+    encryptBlock: (block, steps, label) => desBlock(block, subkeys, steps, label),
+    decryptBlock: (block, steps, label) => desBlock(block, reversed, steps, label),
+  };
+};
+
+/**
+ * Runs DES over the whole input in the chosen mode of operation (ECB by
+ * default). Encryption returns hex ciphertext; decryption expects it.
+ */
+export const runDes = (
+  input: string,
+  direction: 'encrypt' | 'decrypt',
+  { key = DEFAULT_DES_KEY, ...modeOptions }: BlockCipherOptions = {},
+  steps: Step[] = []
+): EngineResult => {
+  const subkeys = deriveSubkeys(key);
+  steps.push({
+    kind: 'des',
+    operation: 'keySchedule',
+    title: 'Key Schedule',
+    description: `The key passes through PC-1 (dropping 8 parity bits), is rotated per round and compressed by PC-2 into 16 subkeys of 48 bits.${
+      direction === 'decrypt' && !CIPHER_MODES[modeOptions.mode ?? 'ecb'].stream ? ' Decryption applies them in reverse order, K16 first.' : ''
+    }`,
+    values: [keyValue('Key', key), ...subkeys.map((subkey, index) => keyValue(`K${index + 1}`, bitsToBytes(subkey)))],
+  });
+  return runBlockCipher(createDesCipher(subkeys), input, direction, modeOptions, steps);
+};
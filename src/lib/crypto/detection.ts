@@ -0,0 +1,217 @@
+/** Error-detecting checks side by side, scored against the errors they are meant to catch. */
+import { internetChecksum } from './checksum';
+import { CRC_PRESETS, CrcParameters, CrcPresetId, crc, crcTable } from './crc';
+import { FletcherVariant, fletcher } from './fletcher';
+import { luhnSum } from './luhn';
+import { annotation, tableValue } from './trace';
+import type { TraceValue } from './types';
+
+export interface ErrorDetector {
+  id: string;
+  name: string;
+  /** Size of the check value, such as "16 bits". */
+  size: string;
+  /** Byte checks see errors as flipped bits; Luhn works on decimal digits and sees mistyped digits. */
+  alphabet: 'bytes' | 'digits';
+  /** The check value of the data, without tracing. */
+  compute: (data: Uint8Array) => number;
+}
+
+const fletcherDetector = (id: FletcherVariant, name: string, size: string): ErrorDetector => ({
+  id,
+  name,
+  size,
+  alphabet: 'bytes',
+  compute: (data) => fletcher(data, id),
+});
+
+/** A detector for any CRC, including custom parameters outside the presets. */
+export const crcDetector = (id: string, parameters: CrcParameters): ErrorDetector => {
+  const table = crcTable(parameters);
+  return { id, name: parameters.name, size: `${parameters.width} bits`, alphabet: 'bytes', compute: (data) => crc(data, parameters, table) };
+};
+
+const ZERO = '0'.charCodeAt(0);
+
+export const ERROR_DETECTORS: ErrorDetector[] = [
+  { id: 'internet', name: 'Internet checksum', size: '16 bits', alphabet: 'bytes', compute: internetChecksum },
+  fletcherDetector('fletcher16', 'Fletcher-16', '16 bits'),
+  fletcherDetector('fletcher32', 'Fletcher-32', '32 bits'),
+  fletcherDetector('adler32', 'Adler-32', '32 bits'),
+  ...(Object.keys(CRC_PRESETS) as CrcPresetId[]).map((id) => crcDetector(id, CRC_PRESETS[id])),
+  {
+    id: 'luhn',
+    name: 'Luhn',
+    size: '1 digit',
+    alphabet: 'digits',
+    compute: (data) => luhnSum(Array.from(data, (byte) => byte - ZERO)) % 10,
+  },
+];
+
+/** Longer inputs are scored on their first bytes only, which keeps the comparison instant. */
+export const DETECTION_SAMPLE_BYTES = 256;
+
+/** Single errors change one symbol; swaps exchange two different neighbouring symbols. */
+export type ErrorPattern = 'single' | 'swap';
+
+export interface DetectionRate {
+  detected: number;
+  total: number;
+}
+
+/** Whether the data is plain ASCII decimal digits, the only input a digit check can score. */
+export const isDigitData = (data: Uint8Array): boolean =>
+  data.length > 0 && data.every((byte) => byte >= ZERO && byte <= ZERO + 9);
+
+/**
+ * Applies every error of a pattern to the data in turn and counts how many
+ * change the check value. Byte checks get every single-bit flip, digit
+ * checks every substitution of one digit by another.
+ */
+export const detectionRate = (detector: ErrorDetector, data: Uint8Array, pattern: ErrorPattern): DetectionRate => {
+  const reference = detector.compute(data);
+  const corrupted = Uint8Array.from(data);
+  let detected = 0;
+  let total = 0;
+  const test = () => {
+    total++;
+    if (detector.compute(corrupted) !== reference) detected++;
+  };
+
+  corrupted.forEach((original, i) => {
+    if (pattern === 'swap') {
+      if (i + 1 >= corrupted.length || original === corrupted[i + 1]) return;
+      corrupted[i] = corrupted[i + 1];
+      corrupted[i + 1] = original;
+      test();
+      corrupted[i + 1] = corrupted[i];
+      corrupted[i] = original;
+    } else if (detector.alphabet === 'digits') {
+      for (let digit = ZERO; digit <= ZERO + 9; digit++) {
+        if (digit === original) continue;
+        corrupted[i] = digit;
+        test();
+      }
+      corrupted[i] = original;
+    } else {
+      for (let bit = 0; bit < 8; bit++) {
+        corrupted[i] = original ^ (1 << bit);
+        test();
+      }
+      corrupted[i] = original;
+    }
+  });
+  return { detected, total };
+};
+
+export const formatRate = ({ detected, total }: DetectionRate): string =>
+  total === 0 ? 'none possible' : `${detected} / ${total} (${((100 * detected) / total).toFixed(detected === total ? 0 : 1)}%)`;
+
+/**
+ * Scores every detector on the same data and lists the rates side by side,
+ * marking the one that was run. Luhn is only scored when the data is digits.
+ */
+export const compareDetectors = (data: Uint8Array, selected?: string): TraceValue[] => {
+  const sample = data.slice(0, DETECTION_SAMPLE_BYTES);
+  const digits = isDigitData(sample);
+  const rows = ERROR_DETECTORS.map((detector) => {
+    const name = detector.id === selected ? `${detector.name} (this run)` : detector.name;
+    if (detector.alphabet === 'digits' && !digits) return [name, detector.size, 'digits only', 'digits only'];
+    return [name, detector.size, formatRate(detectionRate(detector, sample, 'single')), formatRate(detectionRate(detector, sample, 'swap'))];
+  });
+  return [
+    tableValue('Errors detected', ['Check', 'Size', 'Single errors', 'Adjacent swaps'], rows),
+    annotation(
+      'Single errors are every one-bit flip for the byte checks and every mistyped digit for Luhn; swaps exchange two different neighbouring bytes or digits. A CRC catches every single-bit error, and Fletcher and Adler weight each byte by its position so reordering changes the sum. Luhn catches every mistyped digit and every adjacent swap except 09 ↔ 90.'
+    ),
+    ...(data.length > DETECTION_SAMPLE_BYTES
+      ? [annotation(`Only the first ${DETECTION_SAMPLE_BYTES} of the ${data.length} bytes were corrupted and checked.`, 'warning')]
+      : []),
+  ];
+};
+
+/** Bits are numbered in transmission order: bit 0 is the most significant bit of byte 0. */
+const bitMask = (bit: number): number => 0x80 >>> (bit % 8);
+
+/** Flips the listed bits in place; flipping them again undoes the error. */
+const toggleBits = (data: Uint8Array, bits: number[]) => {
+  bits.forEach((bit) => {
+    data[Math.floor(bit / 8)] ^= bitMask(bit);
+  });
+};
+
+export const flipBit = (data: Uint8Array, bit: number): Uint8Array => {
+  const corrupted = Uint8Array.from(data);
+  toggleBits(corrupted, [bit]);
+  return corrupted;
+};
+
+/** Exchanges byte `index` with the byte after it. */
+export const swapBytes = (data: Uint8Array, index: number): Uint8Array => {
+  const corrupted = Uint8Array.from(data);
+  corrupted[index] = data[index + 1];
+  corrupted[index + 1] = data[index];
+  return corrupted;
+};
+
+/** Flips every bit from `start` on for `length` bits, the simplest burst of that length. */
+export const injectBurst = (data: Uint8Array, start: number, length: number): Uint8Array => {
+  const corrupted = Uint8Array.from(data);
+  const end = Math.min(start + length, data.length * 8);
+  toggleBits(corrupted, Array.from({ length: Math.max(end - start, 0) }, (_, i) => start + i));
+  return corrupted;
+};
+
+/** Positions of the bits that differ between two equally long byte arrays. */
+export const differingBits = (a: Uint8Array, b: Uint8Array): number[] =>
+  Array.from({ length: a.length * 8 }, (_, bit) => bit).filter((bit) => ((a[Math.floor(bit / 8)] ^ b[Math.floor(bit / 8)]) & bitMask(bit)) !== 0);
+
+/** Random errors flip n distinct bits anywhere; bursts flip the first and last of n consecutive bits and a random choice in between. */
+export type SweepPattern = 'random' | 'burst';
+
+/** Uniform integers below `limit`, drawn from the platform CSPRNG. */
+const randomBelow = (count: number, limit: number): number[] =>
+  Array.from(crypto.getRandomValues(new Uint32Array(count)), (value) => value % limit);
+
+/** Chooses the bits one random error of the pattern flips. */
+const randomErrorBits = (totalBits: number, errorBits: number, pattern: SweepPattern): number[] => {
+  if (pattern === 'burst') {
+    const [start] = randomBelow(1, totalBits - errorBits + 1);
+    const inner = randomBelow(Math.max(errorBits - 2, 0), 2);
+    return [start, ...inner.flatMap((flip, i) => (flip ? [start + 1 + i] : [])), ...(errorBits > 1 ? [start + errorBits - 1] : [])];
+  }
+  const chosen = new Set<number>();
+  while (chosen.size < errorBits) chosen.add(randomBelow(1, totalBits)[0]);
+  return [...chosen];
+};
+
+/**
+ * Corrupts the data with `trials` random errors of `errorBits` bits and
+ * counts, for each detector, how many change its check value. Every
+ * detector sees the same errors, so the rates compare like with like.
+ */
+export const sweepDetection = (
+  data: Uint8Array,
+  detectors: ErrorDetector[],
+  errorBits: number,
+  trials: number,
+  pattern: SweepPattern = 'random'
+): DetectionRate[] => {
+  const sample = data.slice(0, DETECTION_SAMPLE_BYTES);
+  const totalBits = sample.length * 8;
+  if (errorBits < 1 || errorBits > totalBits) {
+    throw new Error(`An error must flip between 1 and ${totalBits} bits of this input`);
+  }
+  const references = detectors.map((detector) => detector.compute(sample));
+  const rates = detectors.map(() => ({ detected: 0, total: trials }));
+  const corrupted = Uint8Array.from(sample);
+  for (let trial = 0; trial < trials; trial++) {
+    const bits = randomErrorBits(totalBits, errorBits, pattern);
+    toggleBits(corrupted, bits);
+    detectors.forEach((detector, i) => {
+      if (detector.compute(corrupted) !== references[i]) rates[i].detected++;
+    });
+    toggleBits(corrupted, bits);
+  }
+  return rates;
+};
@@ -0,0 +1,290 @@
+import { SquareMultiplyRow, bitLength, millerRabin, modPow, randomInRange } from './bigint';
+import { reportProgress } from './stream';
+import { abbreviate, annotation, numberValue, squareMultiplyValue, tableValue } from './trace';
+import type { DhLane, DhOperation, DhStep, EngineResult, Step } from './types';
+
+const hexPrime = (...lines: string[]): bigint => BigInt(`0x${lines.join('')}`);
+
+export interface DhGroup {
+  name: string;
+  p: bigint;
+  g: bigint;
+}
+
+export type DhGroupId = 'toy23' | 'toy467' | 'small32' | 'modp1536' | 'modp2048' | 'modp3072' | 'modp4096';
+
+/**
+ * Teaching groups small enough to attack, and the RFC 3526 MODP groups. The
+ * MODP primes are 2^n - 2^(n-64) - 1 + 2^64 · (floor(2^(n-130) · π) + k), all
+ * safe primes with generator 2.
+ */
+export const DH_GROUPS: Record<DhGroupId, DhGroup> = {
+  toy23: { name: 'Toy: p = 23, g = 5', p: 23n, g: 5n },
+  toy467: { name: 'Toy: p = 467, g = 2', p: 467n, g: 2n },
+  small32: { name: 'Small: 32-bit safe prime, g = 2', p: 4294963787n, g: 2n },
+  modp1536: {
+    name: 'RFC 3526 group 5 (1536-bit MODP)',
+    p: hexPrime(
+      'FFFFFFFFFFFFFFFFC90FDAA22168C234C4C6628B80DC1CD129024E088A67CC74',
+      '020BBEA63B139B22514A08798E3404DDEF9519B3CD3A431B302B0A6DF25F1437',
+      '4FE1356D6D51C245E485B576625E7EC6F44C42E9A637ED6B0BFF5CB6F406B7ED',
+      'EE386BFB5A899FA5AE9F24117C4B1FE649286651ECE45B3DC2007CB8A163BF05',
+      '98DA48361C55D39A69163FA8FD24CF5F83655D23DCA3AD961C62F356208552BB',
+      '9ED529077096966D670C354E4ABC9804F1746C08CA237327FFFFFFFFFFFFFFFF'
+    ),
+    g: 2n,
+  },
+  modp2048: {
+    name: 'RFC 3526 group 14 (2048-bit MODP)',
+    p: hexPrime(
+      'FFFFFFFFFFFFFFFFC90FDAA22168C234C4C6628B80DC1CD129024E088A67CC74',
+      '020BBEA63B139B22514A08798E3404DDEF9519B3CD3A431B302B0A6DF25F1437',
+      '4FE1356D6D51C245E485B576625E7EC6F44C42E9A637ED6B0BFF5CB6F406B7ED',
+      'EE386BFB5A899FA5AE9F24117C4B1FE649286651ECE45B3DC2007CB8A163BF05',
+      '98DA48361C55D39A69163FA8FD24CF5F83655D23DCA3AD961C62F356208552BB',
+      '9ED529077096966D670C354E4ABC9804F1746C08CA18217C32905E462E36CE3B',
+      'E39E772C180E86039B2783A2EC07A28FB5C55DF06F4C52C9DE2BCBF695581718',
+      '3995497CEA956AE515D2261898FA051015728E5A8AACAA68FFFFFFFFFFFFFFFF'
+    ),
+    g: 2n,
+  },
+  modp3072: {
+    name: 'RFC 3526 group 15 (3072-bit MODP)',
+    p: hexPrime(
+      'FFFFFFFFFFFFFFFFC90FDAA22168C234C4C6628B80DC1CD129024E088A67CC74',
+      '020BBEA63B139B22514A08798E3404DDEF9519B3CD3A431B302B0A6DF25F1437',
+      '4FE1356D6D51C245E485B576625E7EC6F44C42E9A637ED6B0BFF5CB6F406B7ED',
+      'EE386BFB5A899FA5AE9F24117C4B1FE649286651ECE45B3DC2007CB8A163BF05',
+      '98DA48361C55D39A69163FA8FD24CF5F83655D23DCA3AD961C62F356208552BB',
+      '9ED529077096966D670C354E4ABC9804F1746C08CA18217C32905E462E36CE3B',
+      'E39E772C180E86039B2783A2EC07A28FB5C55DF06F4C52C9DE2BCBF695581718',
+      '3995497CEA956AE515D2261898FA051015728E5A8AAAC42DAD33170D04507A33',
+      'A85521ABDF1CBA64ECFB850458DBEF0A8AEA71575D060C7DB3970F85A6E1E4C7',
+      'ABF5AE8CDB0933D71E8C94E04A25619DCEE3D2261AD2EE6BF12FFA06D98A0864',
+      'D87602733EC86A64521F2B18177B200CBBE117577A615D6C770988C0BAD946E2',
+      '08E24FA074E5AB3143DB5BFCE0FD108E4B82D120A93AD2CAFFFFFFFFFFFFFFFF'
+    ),
+    g: 2n,
+  },
+  modp4096: {
+    name: 'RFC 3526 group 16 (4096-bit MODP)',
+    p: hexPrime(
+      'FFFFFFFFFFFFFFFFC90FDAA22168C234C4C6628B80DC1CD129024E088A67CC74',
+      '020BBEA63B139B22514A08798E3404DDEF9519B3CD3A431B302B0A6DF25F1437',
+      '4FE1356D6D51C245E485B576625E7EC6F44C42E9A637ED6B0BFF5CB6F406B7ED',
+      'EE386BFB5A899FA5AE9F24117C4B1FE649286651ECE45B3DC2007CB8A163BF05',
+      '98DA48361C55D39A69163FA8FD24CF5F83655D23DCA3AD961C62F356208552BB',
+      '9ED529077096966D670C354E4ABC9804F1746C08CA18217C32905E462E36CE3B',
+      'E39E772C180E86039B2783A2EC07A28FB5C55DF06F4C52C9DE2BCBF695581718',
+      '3995497CEA956AE515D2261898FA051015728E5A8AAAC42DAD33170D04507A33',
+      'A85521ABDF1CBA64ECFB850458DBEF0A8AEA71575D060C7DB3970F85A6E1E4C7',
+      'ABF5AE8CDB0933D71E8C94E04A25619DCEE3D2261AD2EE6BF12FFA06D98A0864',
+      'D87602733EC86A64521F2B18177B200CBBE117577A615D6C770988C0BAD946E2',
+      '08E24FA074E5AB3143DB5BFCE0FD108E4B82D120A92108011A723C12A787E6D7',
+      '88719A10BDBA5B2699C327186AF4E23C1A946834B6150BDA2583E9CA2AD44CE8',
+      'DBBBC2DB04DE8EF92E8EFC141FBECAA6287C59474E6BC05D99B2964FA090C3A2',
+      '233BA186515BE7ED1F612970CEE2D7AFB81BDD762170481CD0069127D5B05AA9',
+      '93B4EA988D8FDDC186FFB7DC90A6C08F4DF435C934063199FFFFFFFFFFFFFFFF'
+    ),
+    g: 2n,
+  },
+};
+
+/** Moduli up to this size are small enough for Eve's baby-step giant-step attack to run in the browser. */
+const ATTACK_BITS = 40;
+
+/** Each Miller-Rabin round on a multi-thousand-bit prime costs a full exponentiation, so big moduli get fewer. */
+const primalityRounds = (n: bigint): number => (bitLength(n) > 1024 ? 4 : 20);
+
+export interface DhOptions {
+  p?: bigint;
+  g?: bigint;
+  alicePrivate?: bigint;
+  bobPrivate?: bigint;
+}
+
+/** Returns an error message when p and g cannot form a Diffie-Hellman group, or null. */
+export const validateDhParameters = (p: bigint, g: bigint): string | null => {
+  if (p < 5n || !millerRabin(p, primalityRounds(p)).probablePrime) {
+    return 'p must be a prime of at least 5';
+  }
+  if (g < 2n || g > p - 2n) {
+    return 'g must lie between 2 and p - 2';
+  }
+  return null;
+};
+
+/** Baby and giant steps between progress reports; a 40-bit modulus takes about 2^21 of them. */
+const ATTACK_PROGRESS_INTERVAL = 4096;
+
+/**
+ * Baby-step giant-step: finds x with g^x ≡ h (mod p) in about 2√p
+ * multiplications by storing g^j for j < m and stepping h by g^-m.
+ * `onProgress` receives the fraction of the worst case done so far.
+ */
+export const discreteLog = (
+  g: bigint,
+  h: bigint,
+  p: bigint,
+  onProgress?: (fraction: number) => void
+): { x: bigint | null; m: number; giantSteps: number } => {
+  const m = Math.ceil(Math.sqrt(Number(p - 1n)));
+  const progress = (done: number) => {
+    if (done % ATTACK_PROGRESS_INTERVAL === 0) onProgress?.(done / (2 * m));
+  };
+  const table = new Map<number, number>();
+  let value = 1n;
+  for (let j = 0; j < m; j++) {
+    if (!table.has(Number(value))) table.set(Number(value), j);
+    value = (value * g) % p;
+    progress(j + 1);
+  }
+  const stride = modPow(modPow(g, BigInt(m), p), p - 2n, p);
+  let gamma = h;
+  for (let i = 0; i < m; i++) {
+    progress(m + i + 1);
+    const j = table.get(Number(gamma));
+    if (j !== undefined) return { x: BigInt(i) * BigInt(m) + BigInt(j), m, giantSteps: i + 1 };
+    gamma = (gamma * stride) % p;
+  }
+  return { x: null, m, giantSteps: m };
+};
+
+const formatSecret = (n: bigint): string => (bitLength(n) <= 64 ? n.toString() : `0x${n.toString(16)}`);
+
+/**
+ * Simulates an unauthenticated Diffie-Hellman exchange between Alice and Bob,
+ * tracing each party's private and public values, what an eavesdropper sees
+ * on the wire and, for small groups, how she breaks it.
+ */
+export const runDh = ({ p = DH_GROUPS.toy23.p, g = DH_GROUPS.toy23.g, alicePrivate, bobPrivate }: DhOptions = {}, steps: Step[] = []): EngineResult => {
+  const error = validateDhParameters(p, g);
+  if (error) throw new Error(error);
+  for (const [name, value] of [['Alice', alicePrivate], ['Bob', bobPrivate]] as const) {
+    if (value !== undefined && (value < 2n || value > p - 2n)) {
+      throw new Error(`${name}'s private key must lie between 2 and p - 2`);
+    }
+  }
+
+  const push = (operation: DhOperation, lane: DhLane, step: Omit<DhStep, 'kind' | 'operation' | 'lane'>) => {
+    steps.push({ kind: 'dh', operation, lane, ...step });
+  };
+
+  // When Eve's attack runs it dominates the work, so it gets half of the progress bar.
+  const attackable = bitLength(p) <= ATTACK_BITS;
+  const total = attackable ? 8 : 4;
+
+  const safe = millerRabin((p - 1n) / 2n, primalityRounds(p)).probablePrime;
+  push('parameters', 'public', {
+    title: 'Public Parameters',
+    description: 'Alice and Bob agree in the open on a prime modulus p and a generator g. Everyone, including Eve, knows them.',
+    values: [
+      numberValue('p', p),
+      numberValue('g', g),
+      safe
+        ? annotation('p is a safe prime (p = 2q + 1 with q prime), so the group has no small subgroups to exploit.', 'success')
+        : annotation('p is not a safe prime; small factors of p - 1 can let an attacker learn parts of a private key.', 'warning'),
+    ],
+  });
+
+  const privateKey = (name: 'Alice' | 'Bob', symbol: string, given?: bigint): bigint => {
+    const value = given ?? randomInRange(2n, p - 2n);
+    push('privateKey', name === 'Alice' ? 'alice' : 'bob', {
+      title: `${name}'s Private Key`,
+      description: `${name} ${given === undefined ? 'picks a random' : 'uses the chosen'} secret exponent ${symbol} between 2 and p - 2 and never reveals it.`,
+      values: [numberValue(symbol, value)],
+    });
+    return value;
+  };
+  const a = privateKey('Alice', 'a', alicePrivate);
+  const b = privateKey('Bob', 'b', bobPrivate);
+
+  const power = (
+    operation: DhOperation,
+    lane: 'alice' | 'bob',
+    title: string,
+    description: string,
+    [baseLabel, base]: [string, bigint],
+    [exponentLabel, exponent]: [string, bigint],
+    output: string
+  ): bigint => {
+    const rows: SquareMultiplyRow[] = [];
+    const value = modPow(base, exponent, p, rows);
+    push(operation, lane, {
+      title,
+      description,
+      values: [numberValue(baseLabel, base), squareMultiplyValue(rows, base, exponentLabel, p), numberValue(output, value)],
+    });
+    return value;
+  };
+
+  const A = power('publicKey', 'alice', "Alice's Public Key", 'A = g^a mod p. Recovering a from A is the discrete logarithm problem.', ['g', g], ['a', a], 'A');
+  reportProgress(steps, 1, total);
+  const B = power('publicKey', 'bob', "Bob's Public Key", 'B = g^b mod p.', ['g', g], ['b', b], 'B');
+  reportProgress(steps, 2, total);
+
+  push('exchange', 'wire', {
+    title: 'Exchange over the Wire',
+    description: 'Alice sends A to Bob and Bob sends B to Alice over an open channel.',
+    values: [
+      numberValue('A (Alice → Bob)', A),
+      numberValue('B (Bob → Alice)', B),
+      annotation('Eve records p, g, A and B, but neither a nor b ever leaves its owner.'),
+    ],
+  });
+
+  const aliceSecret = power('sharedSecret', 'alice', "Alice's Shared Secret", 'Alice raises Bob\'s public key to her private exponent: s = B^a = g^(ab) mod p.', ['B', B], ['a', a], 's');
+  reportProgress(steps, 3, total);
+  const bobSecret = power('sharedSecret', 'bob', "Bob's Shared Secret", 'Bob raises Alice\'s public key to his private exponent: s = A^b = g^(ab) mod p.', ['A', A], ['b', b], 's');
+  reportProgress(steps, 4, total);
+
+  if (attackable) {
+    const attack = discreteLog(g, A, p, (fraction) => reportProgress(steps, 4 + 4 * fraction, total));
+    reportProgress(steps, total, total);
+    const recovered = attack.x === null ? null : modPow(B, attack.x, p);
+    push('eavesdrop', 'eve', {
+      title: "Eve's Attack",
+      description: `With a ${bitLength(p)}-bit modulus Eve can solve the discrete logarithm by baby-step giant-step: she stores g^j for j < m = ${attack.m}, then multiplies A by g^-m until she hits a stored value.`,
+      values: [
+        tableValue('Baby-step giant-step', ['Quantity', 'Value'], [
+          ['Baby steps stored', attack.m],
+          ['Giant steps taken', attack.giantSteps],
+          ['Recovered exponent', attack.x === null ? 'none' : abbreviate(attack.x)],
+        ]),
+        ...(recovered === null ? [] : [numberValue("Eve's s = B^x mod p", recovered)]),
+        recovered === null
+          ? annotation('The search ended without finding x, which should be impossible because A = g^a always has a logarithm.', 'warning')
+          : annotation('Eve computed the shared secret: groups this small give no security.', 'warning'),
+      ],
+    });
+  } else {
+    push('eavesdrop', 'eve', {
+      title: "Eve's Attack",
+      description: `Eve would need a or b, i.e. a discrete logarithm modulo a ${bitLength(p)}-bit prime.`,
+      values: [
+        annotation(
+          'Generic attacks need about √p steps and the best known (the number field sieve) is still far out of reach: a 2048-bit group is rated at 112-bit security.',
+          'success'
+        ),
+      ],
+    });
+  }
+
+  const matches = aliceSecret === bobSecret;
+  push('compare', 'public', {
+    title: 'Shared Secret Agreed',
+    description: matches
+      ? 'Both computed g^(ab) mod p without ever sending it.'
+      : 'The two secrets differ, which should be impossible.',
+    values: [
+      numberValue('s', aliceSecret),
+      annotation(
+        'Plain Diffie-Hellman is unauthenticated: an active attacker in the middle could run one exchange with each side. Real protocols sign the public keys and hash s with a KDF before use.',
+        'warning'
+      ),
+    ],
+    result: formatSecret(aliceSecret),
+  });
+
+  return { steps, result: formatSecret(aliceSecret) };
+};
@@ -0,0 +1,306 @@
+import { bigIntToBytes, bitLength, mod, modInverse, randomInRange } from './bigint';
+import { toHex } from './bytes';
+import { reportProgress } from './stream';
+import { abbreviate, annotation, bitsValue, numberValue, pointsValue, tableValue } from './trace';
+import type { EccOperation, EccStep, EngineResult, Step, TraceValue } from './types';
+
+export interface AffinePoint {
+  x: bigint;
+  y: bigint;
+}
+
+/** A curve point; null is the point at infinity O, the identity of the group. */
+export type Point = AffinePoint | null;
+
+/** A short Weierstrass curve y² = x³ + ax + b over F_p with a base point G of prime order n. */
+export interface Curve {
+  name: string;
+  p: bigint;
+  a: bigint;
+  b: bigint;
+  G: AffinePoint;
+  n: bigint;
+  /** Cofactor: the number of curve points divided by n. */
+  h: bigint;
+}
+
+export type CurveId = 'tiny17' | 'small97' | 'small251' | 'p256' | 'secp256k1';
+
+/** Teaching curves small enough to plot, all of prime order, and two standard 256-bit curves. */
+export const CURVES: Record<CurveId, Curve> = {
+  tiny17: { name: 'Tiny: y² = x³ + 2x + 2 over F17', p: 17n, a: 2n, b: 2n, G: { x: 5n, y: 1n }, n: 19n, h: 1n },
+  small97: { name: 'Small: y² = x³ + 3x + 2 over F97', p: 97n, a: 3n, b: 2n, G: { x: 1n, y: 43n }, n: 103n, h: 1n },
+  small251: { name: 'Small: y² = x³ + x + 4 over F251', p: 251n, a: 1n, b: 4n, G: { x: 0n, y: 2n }, n: 271n, h: 1n },
+  p256: {
+    name: 'NIST P-256',
+    p: 0xffffffff00000001000000000000000000000000ffffffffffffffffffffffffn,
+    a: 0xffffffff00000001000000000000000000000000fffffffffffffffffffffffcn,
+    b: 0x5ac635d8aa3a93e7b3ebbd55769886bc651d06b0cc53b0f63bce3c3e27d2604bn,
+    G: {
+      x: 0x6b17d1f2e12c4247f8bce6e563a440f277037d812deb33a0f4a13945d898c296n,
+      y: 0x4fe342e2fe1a7f9b8ee7eb4a7c0f9e162bce33576b315ececbb6406837bf51f5n,
+    },
+    n: 0xffffffff00000000ffffffffffffffffbce6faada7179e84f3b9cac2fc632551n,
+    h: 1n,
+  },
+  secp256k1: {
+    name: 'secp256k1 (Bitcoin)',
+    p: 0xfffffffffffffffffffffffffffffffffffffffffffffffffffffffefffffc2fn,
+    a: 0n,
+    b: 7n,
+    G: {
+      x: 0x79be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798n,
+      y: 0x483ada7726a3c4655da4fbfc0e1108a8fd17b448a68554199c47d08ffb10d4b8n,
+    },
+    n: 0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141n,
+    h: 1n,
+  },
+};
+
+/** Fields up to this size are plotted point by point. */
+const PLOT_LIMIT = 1000n;
+
+export const isOnCurve = (curve: Curve, point: Point): boolean =>
+  point === null || mod(point.y * point.y - (point.x * point.x * point.x + curve.a * point.x + curve.b), curve.p) === 0n;
+
+export const negatePoint = (curve: Curve, point: Point): Point => (point === null ? null : { x: point.x, y: mod(-point.y, curve.p) });
+
+export const formatPoint = (point: Point): string => (point === null ? 'O' : `(${abbreviate(point.x)}, ${abbreviate(point.y)})`);
+
+/** How one group operation was carried out, for tracing. */
+export interface PointOperation {
+  kind: 'double' | 'add';
+  P: Point;
+  Q: Point;
+  /** The slope of the chord or tangent; absent when a special case applied. */
+  slope?: bigint;
+  result: Point;
+  /** Explains a special case, such as adding a point to its negation. */
+  note?: string;
+}
+
+/** Adds two points with the chord-and-tangent rule, recording how into `operations` when given. */
+export const addPoints = (curve: Curve, P: Point, Q: Point, operations?: PointOperation[]): Point => {
+  const { p, a } = curve;
+  const kind = P !== null && Q !== null && P.x === Q.x && P.y === Q.y ? 'double' : 'add';
+  const record = (result: Point, slope?: bigint, note?: string): Point => {
+    operations?.push({ kind, P, Q, slope, result, note });
+    return result;
+  };
+
+  if (P === null) return record(Q, undefined, 'O is the identity, so O + Q = Q.');
+  if (Q === null) return record(P, undefined, 'O is the identity, so P + O = P.');
+  if (P.x === Q.x && mod(P.y + Q.y, p) === 0n) {
+    return record(null, undefined, kind === 'double'
+      ? 'The tangent at a point with y = 0 is vertical, so 2P = O.'
+      : 'Q = -P: the line through them is vertical, so P + Q = O.');
+  }
+  const slope = kind === 'double'
+    ? mod((3n * P.x * P.x + a) * modInverse(2n * P.y, p), p)
+    : mod((Q.y - P.y) * modInverse(mod(Q.x - P.x, p), p), p);
+  const x = mod(slope * slope - P.x - Q.x, p);
+  return record({ x, y: mod(slope * (P.x - x) - P.y, p) }, slope);
+};
+
+export interface LadderRow {
+  bit: number;
+  doubled?: PointOperation;
+  added?: PointOperation;
+  result: Point;
+}
+
+/**
+ * Scalar multiplication k·P by left-to-right double-and-add: starting from P
+ * for the leading 1 bit, every further bit doubles the running point and each
+ * 1 bit then adds P.
+ */
+export const multiplyPoint = (curve: Curve, k: bigint, P: Point, rows?: LadderRow[]): Point => {
+  if (k === 0n || P === null) return null;
+  const bits = k.toString(2);
+  let result: Point = P;
+  rows?.push({ bit: 1, result });
+  for (let i = 1; i < bits.length; i++) {
+    const operations: PointOperation[] = [];
+    result = addPoints(curve, result, result, operations);
+    if (bits[i] === '1') result = addPoints(curve, result, P, operations);
+    rows?.push({ bit: Number(bits[i]), doubled: operations[0], added: operations[1], result });
+  }
+  return result;
+};
+
+const curvePoints = new Map<string, [number, number][]>();
+
+/** Every affine point of a small curve, found by matching x³ + ax + b against the table of squares. */
+const enumeratePoints = (curve: Curve): [number, number][] => {
+  const cached = curvePoints.get(curve.name);
+  if (cached) return cached;
+  const p = Number(curve.p);
+  const roots = new Map<number, number[]>();
+  for (let y = 0; y < p; y++) {
+    const square = (y * y) % p;
+    roots.set(square, [...(roots.get(square) ?? []), y]);
+  }
+  const points: [number, number][] = [];
+  for (let x = 0; x < p; x++) {
+    const rhs = Number(mod(BigInt(x) ** 3n + curve.a * BigInt(x) + curve.b, curve.p));
+    for (const y of roots.get(rhs) ?? []) points.push([x, y]);
+  }
+  curvePoints.set(curve.name, points);
+  return points;
+};
+
+/** A plot of the curve with the given points marked, or null when the field is too large to draw. */
+export const curvePlotValue = (curve: Curve, marked: [string, Point][]): TraceValue | null => {
+  if (curve.p > PLOT_LIMIT) return null;
+  return pointsValue(
+    `Points of the curve over F${curve.p}`,
+    Number(curve.p),
+    enumeratePoints(curve),
+    marked.flatMap(([label, point]) => (point === null ? [] : [{ label, x: Number(point.x), y: Number(point.y) }]))
+  );
+};
+
+/** A point's coordinates as trace values, or a note for the point at infinity. */
+export const pointValues = (label: string, point: Point): TraceValue[] =>
+  point === null
+    ? [annotation(`${label} = O, the point at infinity.`)]
+    : [numberValue(`${label}.x`, point.x), numberValue(`${label}.y`, point.y)];
+
+/** The slope and coordinate formulas of one group operation, filled in with its values. */
+export const pointOperationValue = (operation: PointOperation): TraceValue => {
+  if (operation.slope === undefined || operation.P === null || operation.Q === null || operation.result === null) {
+    return annotation(operation.note ?? `Result: ${formatPoint(operation.result)}`);
+  }
+  const { P, Q, slope, result } = operation;
+  return tableValue(operation.kind === 'double' ? 'Point doubling' : 'Point addition', ['Quantity', 'Formula', 'Value'], [
+    ['λ', operation.kind === 'double' ? '(3x₁² + a) / 2y₁' : '(y₂ − y₁) / (x₂ − x₁)', abbreviate(slope)],
+    ['x₃', operation.kind === 'double' ? 'λ² − 2x₁' : 'λ² − x₁ − x₂', abbreviate(result.x)],
+    ['y₃', 'λ(x₁ − x₃) − y₁', abbreviate(result.y)],
+    ['Inputs', '', `${formatPoint(P)}${operation.kind === 'add' ? ` + ${formatPoint(Q)}` : ''}`],
+  ]);
+};
+
+/** A whole double-and-add run as one table, for protocols that only summarise their scalar multiplications. */
+export const ladderValue = (rows: LadderRow[], scalarLabel: string, curve: Curve): TraceValue => {
+  if (bitLength(curve.p) > 64) {
+    const additions = rows.filter((row) => row.added).length;
+    return annotation(
+      `Double-and-add over the ${rows.length} bits of ${scalarLabel}: ${rows.length - 1} doublings and ${additions} additions on a ${bitLength(curve.p)}-bit curve.`
+    );
+  }
+  return tableValue(`Double-and-add over the bits of ${scalarLabel}`, ['Bit', 'Double', 'Add', 'Point'], rows.map((row, index) => [
+    row.bit,
+    index === 0 ? 'start' : formatPoint(row.doubled?.result ?? null),
+    row.added ? '+ P' : '',
+    formatPoint(row.result),
+  ]));
+};
+
+/** A point in the SEC 1 uncompressed form 04 ‖ x ‖ y, or (x, y) in decimal on a small curve. */
+export const encodePoint = (curve: Curve, point: Point): string => {
+  if (point === null) return 'O';
+  if (bitLength(curve.p) <= 64) return `(${point.x}, ${point.y})`;
+  const length = Math.ceil(bitLength(curve.p) / 8);
+  return `04${toHex(bigIntToBytes(point.x, length))}${toHex(bigIntToBytes(point.y, length))}`;
+};
+
+export const curveEquation = (curve: Curve): string =>
+  `y² = x³ ${curve.a === curve.p - 3n ? '− 3x' : curve.a === 0n ? '' : `+ ${abbreviate(curve.a)}x `}+ ${abbreviate(curve.b)} (mod p)`.replace(/\s+/g, ' ');
+
+/** Steps describing the curve and its base point, shared by the protocols built on it. */
+export const curveSteps = (curve: Curve, steps: Step[]) => {
+  const { p, a, b, G, n, h } = curve;
+  const push = (operation: 'curve' | 'basePoint', step: Omit<EccStep, 'kind' | 'operation'>) => {
+    steps.push({ kind: 'ecc', operation, ...step });
+  };
+  const discriminant = mod(4n * a * a * a + 27n * b * b, p);
+  const plot = curvePlotValue(curve, [['G', G]]);
+  push('curve', {
+    title: 'Curve Selection',
+    description: `The curve ${curveEquation(curve)} over a ${bitLength(p)}-bit prime field. Points on the curve, together with the point at infinity O, form a group under the chord-and-tangent rule.`,
+    values: [
+      numberValue('p', p),
+      numberValue('a', a),
+      numberValue('b', b),
+      discriminant === 0n
+        ? annotation('4a³ + 27b² ≡ 0: the curve is singular and does not form a group.', 'warning')
+        : annotation('4a³ + 27b² ≠ 0 (mod p), so the curve has no cusps or self-intersections.', 'success'),
+      ...(plot ? [plot] : [annotation(`With a ${bitLength(p)}-bit field there are about 2^${bitLength(n) - 1} points: far too many to plot.`)]),
+    ],
+  });
+  push('basePoint', {
+    title: 'Base Point',
+    description: `Everyone uses the same generator G. Its multiples G, 2G, 3G, … cycle through n points before returning to O; the cofactor h = ${h} is the total point count divided by n.`,
+    values: [
+      ...pointValues('G', G),
+      numberValue('n', n),
+      isOnCurve(curve, G)
+        ? annotation('G satisfies the curve equation.', 'success')
+        : annotation('G is not on the curve.', 'warning'),
+    ],
+  });
+};
+
+export interface EccOptions {
+  curve?: Curve;
+  privateKey?: bigint;
+}
+
+/**
+ * Generates an elliptic-curve key pair, tracing every doubling and addition
+ * of the double-and-add scalar multiplication Q = d·G.
+ */
+export const runEcc = ({ curve = CURVES.tiny17, privateKey }: EccOptions = {}, steps: Step[] = []): EngineResult => {
+  const { G, n } = curve;
+  if (privateKey !== undefined && (privateKey < 1n || privateKey >= n)) {
+    throw new Error(`The private key must lie between 1 and n - 1 = ${n - 1n}`);
+  }
+  const push = (operation: EccOperation, step: Omit<EccStep, 'kind' | 'operation'>) => {
+    steps.push({ kind: 'ecc', operation, ...step });
+  };
+
+  curveSteps(curve, steps);
+
+  const d = privateKey ?? randomInRange(1n, n - 1n);
+  const bits = d.toString(2);
+  push('privateKey', {
+    title: 'Private Key',
+    description: `${privateKey === undefined ? 'A random' : 'The chosen'} scalar d between 1 and n - 1. Multiplying G by d walks its bits from the most significant: start at G for the leading 1, then double for every further bit and add G when the bit is 1.`,
+    values: [numberValue('d', d), bitsValue('d in binary', bits)],
+  });
+
+  const rows: LadderRow[] = [];
+  const Q = multiplyPoint(curve, d, G, rows);
+  rows.slice(1).forEach((row, index) => {
+    const bit = index + 1;
+    const prefix = bits.slice(0, bit + 1);
+    const emit = (operation: PointOperation, multiple: string) => {
+      const plot = curvePlotValue(curve, [['G', G], ['P', operation.P], [multiple, operation.result]]);
+      push(operation.kind, {
+        bit,
+        title: `Bit ${bit} = ${row.bit}: ${operation.kind === 'double' ? 'Double' : 'Add G'}`,
+        description: operation.kind === 'double'
+          ? 'Doubling follows the tangent at P to its second intersection with the curve and reflects it in the x-axis.'
+          : 'Addition follows the line through P and G to a third curve point and reflects it in the x-axis.',
+        values: [pointOperationValue(operation), ...pointValues(multiple, operation.result), ...(plot ? [plot] : [])],
+      });
+    };
+    emit(row.doubled, `${BigInt(`0b${prefix.slice(0, -1)}`) * 2n}G`);
+    if (row.added) emit(row.added, `${BigInt(`0b${prefix}`)}G`);
+    reportProgress(steps, bit, bits.length - 1);
+  });
+
+  const plot = curvePlotValue(curve, [['G', G], ['Q', Q]]);
+  push('publicKey', {
+    title: 'Public Key',
+    description: 'Q = d·G is the public key. Recovering d from Q is the elliptic-curve discrete logarithm problem, which has no known sub-exponential attack.',
+    values: [
+      ...pointValues('Q', Q),
+      isOnCurve(curve, Q) ? annotation('Q lies on the curve.', 'success') : annotation('Q is not on the curve.', 'warning'),
+      ...(plot ? [plot] : []),
+    ],
+    result: encodePoint(curve, Q),
+  });
+
+  return { steps, result: encodePoint(curve, Q) };
+};
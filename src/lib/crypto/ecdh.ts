@@ -0,0 +1,148 @@
+import { bigIntToBytes, bitLength, randomInRange } from './bigint';
+import { toHex } from './bytes';
+import { CURVES, Curve, LadderRow, Point, addPoints, curvePlotValue, curveSteps, formatPoint, ladderValue, multiplyPoint, pointValues } from './ecc';
+import { reportProgress } from './stream';
+import { annotation, numberValue, tableValue } from './trace';
+import type { DhLane, DhOperation, DhStep, EngineResult, Step } from './types';
+
+/** Groups up to this order are small enough for Eve to walk through every multiple of G. */
+const ATTACK_BITS = 20;
+
+export interface EcdhOptions {
+  curve?: Curve;
+  alicePrivate?: bigint;
+  bobPrivate?: bigint;
+}
+
+/** Finds d with d·G = target by adding G until it appears, the naive attack on a tiny group. */
+const bruteForceLog = (curve: Curve, target: Point): bigint | null => {
+  let point: Point = curve.G;
+  for (let d = 1n; d < curve.n; d++) {
+    if (point !== null && target !== null && point.x === target.x && point.y === target.y) return d;
+    point = addPoints(curve, point, curve.G);
+  }
+  return null;
+};
+
+/** The shared secret is the x-coordinate of the shared point, as in SEC 1. */
+const formatSecret = (curve: Curve, point: Point): string =>
+  point === null
+    ? 'O'
+    : bitLength(curve.p) <= 64
+      ? point.x.toString()
+      : toHex(bigIntToBytes(point.x, Math.ceil(bitLength(curve.p) / 8)));
+
+/**
+ * Elliptic-curve Diffie-Hellman: the exchange of the classic protocol with
+ * exponentiation replaced by scalar multiplication. Steps use the
+ * Diffie-Hellman lanes so the same sequence view draws them.
+ */
+export const runEcdh = ({ curve = CURVES.tiny17, alicePrivate, bobPrivate }: EcdhOptions = {}, steps: Step[] = []): EngineResult => {
+  const { G, n } = curve;
+  for (const [name, value] of [['Alice', alicePrivate], ['Bob', bobPrivate]] as const) {
+    if (value !== undefined && (value < 1n || value >= n)) {
+      throw new Error(`${name}'s private key must lie between 1 and n - 1 = ${n - 1n}`);
+    }
+  }
+  const push = (operation: DhOperation, lane: DhLane, step: Omit<DhStep, 'kind' | 'operation' | 'lane'>) => {
+    steps.push({ kind: 'dh', operation, lane, ...step });
+  };
+
+  curveSteps(curve, steps);
+
+  const privateKey = (name: 'Alice' | 'Bob', symbol: string, given?: bigint): bigint => {
+    const value = given ?? randomInRange(1n, n - 1n);
+    push('privateKey', name === 'Alice' ? 'alice' : 'bob', {
+      title: `${name}'s Private Key`,
+      description: `${name} ${given === undefined ? 'picks a random' : 'uses the chosen'} scalar ${symbol} between 1 and n - 1 and keeps it secret.`,
+      values: [numberValue(symbol, value)],
+    });
+    return value;
+  };
+  const a = privateKey('Alice', 'a', alicePrivate);
+  const b = privateKey('Bob', 'b', bobPrivate);
+
+  const multiply = (
+    operation: DhOperation,
+    lane: 'alice' | 'bob',
+    title: string,
+    description: string,
+    [scalarLabel, scalar]: [string, bigint],
+    [pointLabel, point]: [string, Point],
+    output: string
+  ): Point => {
+    const rows: LadderRow[] = [];
+    const result = multiplyPoint(curve, scalar, point, rows);
+    const plot = curvePlotValue(curve, [[pointLabel, point], [output, result]]);
+    push(operation, lane, {
+      title,
+      description,
+      values: [ladderValue(rows, scalarLabel, curve), ...pointValues(output, result), ...(plot ? [plot] : [])],
+    });
+    return result;
+  };
+
+  const A = multiply('publicKey', 'alice', "Alice's Public Key", 'A = a·G, computed by double-and-add.', ['a', a], ['G', G], 'A');
+  reportProgress(steps, 1, 4);
+  const B = multiply('publicKey', 'bob', "Bob's Public Key", 'B = b·G.', ['b', b], ['G', G], 'B');
+  reportProgress(steps, 2, 4);
+
+  push('exchange', 'wire', {
+    title: 'Exchange over the Wire',
+    description: 'Alice sends the point A to Bob and Bob sends B to Alice over an open channel.',
+    values: [
+      ...pointValues('A (Alice → Bob)', A),
+      ...pointValues('B (Bob → Alice)', B),
+      annotation('Eve records the curve, G, A and B, but neither a nor b ever leaves its owner.'),
+    ],
+  });
+
+  const aliceShared = multiply('sharedSecret', 'alice', "Alice's Shared Point", 'Alice multiplies Bob\'s public point by her scalar: S = a·B = ab·G.', ['a', a], ['B', B], 'S');
+  reportProgress(steps, 3, 4);
+  const bobShared = multiply('sharedSecret', 'bob', "Bob's Shared Point", 'Bob multiplies Alice\'s public point by his scalar: S = b·A = ab·G.', ['b', b], ['A', A], 'S');
+  reportProgress(steps, 4, 4);
+
+  if (bitLength(n) <= ATTACK_BITS) {
+    const recovered = bruteForceLog(curve, A);
+    const eveShared = recovered === null ? null : multiplyPoint(curve, recovered, B);
+    push('eavesdrop', 'eve', {
+      title: "Eve's Attack",
+      description: `The group has only n = ${n} points, so Eve computes G, 2G, 3G, … until she reaches A.`,
+      values: [
+        tableValue('Exhaustive search', ['Quantity', 'Value'], [
+          ['Multiples tried', recovered ?? n - 1n],
+          ['Recovered scalar', recovered ?? 'none'],
+          ["Eve's shared point", formatPoint(eveShared)],
+        ]),
+        annotation('Eve computed the shared secret: curves this small give no security.', 'warning'),
+      ],
+    });
+  } else {
+    push('eavesdrop', 'eve', {
+      title: "Eve's Attack",
+      description: `Eve would need a or b, i.e. an elliptic-curve discrete logarithm in a group of ${bitLength(n)}-bit order.`,
+      values: [
+        annotation(
+          `The best known attack, Pollard's rho, needs about √n ≈ 2^${Math.floor(bitLength(n) / 2)} point additions. Unlike for Diffie-Hellman modulo a prime, no faster index-calculus method is known.`,
+          'success'
+        ),
+      ],
+    });
+  }
+
+  const matches = aliceShared !== null && bobShared !== null && aliceShared.x === bobShared.x && aliceShared.y === bobShared.y;
+  const secret = formatSecret(curve, aliceShared);
+  push('compare', 'public', {
+    title: 'Shared Secret Agreed',
+    description: matches
+      ? 'Both computed ab·G; its x-coordinate is the shared secret.'
+      : 'The two shared points differ, which should be impossible.',
+    values: [
+      ...pointValues('S', aliceShared),
+      annotation('As with finite-field Diffie-Hellman, the exchange is unauthenticated and the secret should go through a KDF before use.', 'warning'),
+    ],
+    result: secret,
+  });
+
+  return { steps, result: secret };
+};
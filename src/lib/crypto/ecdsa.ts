@@ -0,0 +1,213 @@
+import { bigIntToBytes, bitLength, bytesToBigInt, mod, modInverse, randomInRange } from './bigint';
+import { toHex } from './bytes';
+import {
+  CURVES,
+  Curve,
+  LadderRow,
+  Point,
+  PointOperation,
+  addPoints,
+  curvePlotValue,
+  curveSteps,
+  ladderValue,
+  multiplyPoint,
+  pointOperationValue,
+  pointValues,
+} from './ecc';
+import { Encoding, decodeText } from './encoding';
+import { sha256 } from './sha256';
+import { reportProgress } from './stream';
+import { annotation, bytesValue, numberValue, tableValue } from './trace';
+import type { EcdsaOperation, EcdsaStep, EngineResult, Step, TraceValue } from './types';
+
+export interface EcdsaOptions {
+  curve?: Curve;
+  inputEncoding?: Encoding;
+}
+
+interface Signature {
+  r: bigint;
+  s: bigint;
+}
+
+/** Formats a signature as (r, s), in decimal on small curves and fixed-width hex on standard ones. */
+const formatSignature = (curve: Curve, { r, s }: Signature): string => {
+  if (bitLength(curve.n) <= 64) return `(${r}, ${s})`;
+  const length = Math.ceil(bitLength(curve.n) / 8);
+  return `(${toHex(bigIntToBytes(r, length))}, ${toHex(bigIntToBytes(s, length))})`;
+};
+
+/**
+ * ECDSA signing and verification over SHA-256, and the private-key recovery
+ * that follows when one nonce signs two messages.
+ */
+export const runEcdsa = (
+  message: string,
+  action: 'sign' | 'attack',
+  secondMessage = '',
+  { curve = CURVES.tiny17, inputEncoding = 'utf8' }: EcdsaOptions = {},
+  steps: Step[] = []
+): EngineResult => {
+  const { G, n } = curve;
+  const push = (operation: EcdsaOperation, step: Omit<EcdsaStep, 'kind' | 'operation'>) => {
+    steps.push({ kind: 'ecdsa', operation, ...step });
+  };
+  const multiply = (scalarLabel: string, scalar: bigint, point: Point): { result: Point; ladder: TraceValue } => {
+    const rows: LadderRow[] = [];
+    const result = multiplyPoint(curve, scalar, point, rows);
+    return { result, ladder: ladderValue(rows, scalarLabel, curve) };
+  };
+
+  curveSteps(curve, steps);
+
+  const d = randomInRange(1n, n - 1n);
+  const { result: Q, ladder: keyLadder } = multiply('d', d, G);
+  push('keyPair', {
+    title: 'Key Pair',
+    description: 'The signer picks a private scalar d and publishes Q = d·G.',
+    values: [numberValue('d', d), keyLadder, ...pointValues('Q', Q)],
+  });
+
+  // The hash is cut to the bit length of n, then used as an integer modulo n.
+  const hashMessage = (label: string, text: string): bigint => {
+    const digest = sha256(decodeText(text, inputEncoding));
+    const excess = digest.length * 8 - bitLength(n);
+    const e = excess > 0 ? bytesToBigInt(digest) >> BigInt(excess) : bytesToBigInt(digest);
+    push('hash', {
+      title: `Hash ${label}`,
+      description: `e is the SHA-256 digest of ${label} truncated to the ${bitLength(n)} bits of n.`,
+      values: [bytesValue('SHA-256 digest', digest), numberValue('e', e)],
+    });
+    return e;
+  };
+
+  /** Signs e with nonce k, or returns null when r or s comes out as 0 and a new nonce is needed. */
+  const sign = (label: string, e: bigint, k: bigint): Signature | null => {
+    const { result: R, ladder } = multiply('k', k, G);
+    const r = R === null ? 0n : mod(R.x, n);
+    const s = r === 0n ? 0n : mod(modInverse(k, n) * (e + r * d), n);
+    push('signature', {
+      title: `Sign ${label}`,
+      description: 'r is the x-coordinate of R = k·G reduced modulo n, and s = k⁻¹(e + r·d) mod n ties the nonce, the hash and the private key together.',
+      values: [
+        ladder,
+        ...pointValues('R', R),
+        numberValue('r', r),
+        numberValue('s', s),
+        ...(r === 0n || s === 0n ? [annotation('r or s is 0, which would make the signature useless; the signer must pick a new k.', 'warning')] : []),
+      ],
+    });
+    return r === 0n || s === 0n ? null : { r, s };
+  };
+
+  const verify = (label: string, e: bigint, { r, s }: Signature): boolean => {
+    const w = modInverse(s, n);
+    const u1 = mod(e * w, n);
+    const u2 = mod(r * w, n);
+    const { result: P1, ladder: ladder1 } = multiply('u₁', u1, G);
+    const { result: P2, ladder: ladder2 } = multiply('u₂', u2, Q);
+    const operations: PointOperation[] = [];
+    const X = addPoints(curve, P1, P2, operations);
+    const valid = X !== null && mod(X.x, n) === r;
+    const plot = curvePlotValue(curve, [['Q', Q], ['X', X]]);
+    push('verify', {
+      title: `Verify ${label}`,
+      description: 'With only the public key: w = s⁻¹, u₁ = e·w and u₂ = r·w (mod n). Then X = u₁·G + u₂·Q equals k·G exactly when the signature is genuine, so its x-coordinate must reproduce r.',
+      values: [
+        tableValue('Scalars', ['Quantity', 'Formula', 'Value'], [
+          ['w', 's⁻¹ mod n', w],
+          ['u₁', 'e·w mod n', u1],
+          ['u₂', 'r·w mod n', u2],
+        ]),
+        ladder1,
+        ladder2,
+        pointOperationValue(operations[0]),
+        ...pointValues('X', X),
+        valid
+          ? annotation('X.x mod n = r: the signature is valid.', 'success')
+          : annotation('X.x mod n ≠ r: the signature is invalid.', 'warning'),
+        ...(plot ? [plot] : []),
+      ],
+      result: valid ? 'valid' : 'invalid',
+    });
+    return valid;
+  };
+
+  const nonce = (description: string): bigint => {
+    const k = randomInRange(1n, n - 1n);
+    push('nonce', {
+      title: 'Choose Nonce',
+      description,
+      values: [numberValue('k', k)],
+    });
+    return k;
+  };
+
+  if (action === 'sign') {
+    const e = hashMessage('the message', message);
+    reportProgress(steps, 1, 3);
+    let signature: Signature | null = null;
+    while (!signature) {
+      const k = nonce('A fresh secret k between 1 and n - 1 for this signature only. Reusing or leaking k gives away the private key.');
+      signature = sign('the message', e, k);
+    }
+    reportProgress(steps, 2, 3);
+    const valid = verify('the signature', e, signature);
+    reportProgress(steps, 3, 3);
+    const result = `${formatSignature(curve, signature)} (${valid ? 'valid' : 'invalid'})`;
+    return { steps, result };
+  }
+
+  const e1 = hashMessage('message 1', message);
+  const e2 = hashMessage('message 2', secondMessage);
+  if (mod(e1 - e2, n) === 0n) {
+    throw new Error('The two messages have the same hash modulo n; choose different messages');
+  }
+  reportProgress(steps, 1, 3);
+
+  let signatures: [Signature, Signature] | null = null;
+  while (!signatures) {
+    const k = nonce('A faulty signer picks k once and then uses it for both messages, as happened to the PlayStation 3 firmware signing key.');
+    const first = sign('message 1', e1, k);
+    const second = first && sign('message 2', e2, k);
+    signatures = first && second ? [first, second] : null;
+  }
+  const [{ r, s: s1 }, { s: s2 }] = signatures;
+  reportProgress(steps, 2, 3);
+
+  push('nonceReuse', {
+    title: 'Spot the Reused Nonce',
+    description: 'r depends only on k, so two signatures with the same r must share a nonce. Eve now holds two equations in the two unknowns k and d.',
+    values: [
+      tableValue('Signatures', ['Message', 'r', 's', 'e'], [
+        ['1', r, s1, e1],
+        ['2', r, s2, e2],
+      ]),
+      annotation('s₁·k ≡ e₁ + r·d and s₂·k ≡ e₂ + r·d (mod n)', 'warning'),
+    ],
+  });
+
+  const k = mod((e1 - e2) * modInverse(mod(s1 - s2, n), n), n);
+  push('recoverNonce', {
+    title: 'Recover the Nonce',
+    description: 'Subtracting the equations cancels r·d: k = (e₁ − e₂) / (s₁ − s₂) mod n.',
+    values: [numberValue('e₁ − e₂ mod n', mod(e1 - e2, n)), numberValue('s₁ − s₂ mod n', mod(s1 - s2, n)), numberValue('k', k)],
+  });
+
+  const recovered = mod((s1 * k - e1) * modInverse(r, n), n);
+  push('recoverKey', {
+    title: 'Recover the Private Key',
+    description: 'With k known, the first equation gives d = (s₁·k − e₁) / r mod n.',
+    values: [
+      numberValue('Recovered d', recovered),
+      numberValue('Actual d', d),
+      recovered === d
+        ? annotation('Eve now holds the private key and can sign anything. Never reuse a nonce; RFC 6979 derives k deterministically from d and the message instead.', 'warning')
+        : annotation('The recovered key does not match.', 'warning'),
+    ],
+    result: recovered.toString(),
+  });
+  reportProgress(steps, 3, 3);
+
+  return { steps, result: `d = ${bitLength(n) <= 64 ? recovered : `0x${recovered.toString(16)}`}` };
+};
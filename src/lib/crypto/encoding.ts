@@ -0,0 +1,103 @@
+import { bytesToText, fromHex, toHex, utf8ToBytes } from './bytes';
+
+export type Encoding = 'utf8' | 'hex' | 'base64' | 'base64url' | 'binary';
+
+export const ENCODINGS: Record<Encoding, { name: string; placeholder: string }> = {
+  utf8: { name: 'UTF-8 text', placeholder: 'Hello' },
+  hex: { name: 'Hex', placeholder: '48656c6c6f' },
+  base64: { name: 'Base64', placeholder: 'SGVsbG8=' },
+  base64url: { name: 'Base64url', placeholder: 'SGVsbG8' },
+  binary: { name: 'Binary bits', placeholder: '01001000 01100101' },
+};
+
+export interface EncodingOptions {
+  /** Defaults to UTF-8 when encrypting and hex when decrypting. */
+  inputEncoding?: Encoding;
+  /** Defaults to hex when encrypting and UTF-8 when decrypting. */
+  outputEncoding?: Encoding;
+}
+
+/** Fills in the encodings a cipher direction uses by default. */
+export const resolveEncodings = (
+  direction: 'encrypt' | 'decrypt',
+  { inputEncoding, outputEncoding }: EncodingOptions
+): Required<EncodingOptions> => ({
+  inputEncoding: inputEncoding ?? (direction === 'encrypt' ? 'utf8' : 'hex'),
+  outputEncoding: outputEncoding ?? (direction === 'encrypt' ? 'hex' : 'utf8'),
+});
+
+const fromBase64 = (text: string, url: boolean): Uint8Array => {
+  const clean = text.replace(/\s+/g, '');
+  const alphabet = url ? /^[A-Za-z0-9_-]*={0,2}$/ : /^[A-Za-z0-9+/]*={0,2}$/;
+  if (!alphabet.test(clean)) {
+    throw new Error(`Invalid ${url ? 'Base64url' : 'Base64'} character`);
+  }
+  const unpadded = clean.replace(/=+$/, '');
+  if (unpadded.length % 4 === 1) {
+    throw new Error(`${url ? 'Base64url' : 'Base64'} text has an impossible length`);
+  }
+  const standard = url ? unpadded.replace(/-/g, '+').replace(/_/g, '/') : unpadded;
+  const binary = atob(standard.padEnd(Math.ceil(standard.length / 4) * 4, '='));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+};
+
+const toBase64 = (bytes: Uint8Array, url: boolean): string => {
+  const base64 = btoa(Array.from(bytes, (b) => String.fromCharCode(b)).join(''));
+  return url ? base64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '') : base64;
+};
+
+const fromBinary = (text: string): Uint8Array => {
+  const clean = text.replace(/\s+/g, '');
+  if (/[^01]/.test(clean)) {
+    throw new Error('Binary input may only contain 0 and 1');
+  }
+  if (clean.length % 8 !== 0) {
+    throw new Error(`Binary input must be whole bytes of 8 bits, got ${clean.length} bits`);
+  }
+  return Uint8Array.from(clean.match(/.{8}/g) ?? [], (byte) => parseInt(byte, 2));
+};
+
+/** Parses user text in the given encoding, throwing an Error that says what is wrong with it. */
+export const decodeText = (text: string, encoding: Encoding): Uint8Array => {
+  switch (encoding) {
+    case 'hex':
+      return fromHex(text);
+    case 'base64':
+      return fromBase64(text, false);
+    case 'base64url':
+      return fromBase64(text, true);
+    case 'binary':
+      return fromBinary(text);
+    default:
+      return utf8ToBytes(text);
+  }
+};
+
+/**
+ * Formats bytes in the given encoding. UTF-8 output falls back to hex when
+ * the bytes are not valid UTF-8, e.g. after decrypting with the wrong key.
+ */
+export const encodeBytes = (bytes: Uint8Array, encoding: Encoding): string => {
+  switch (encoding) {
+    case 'hex':
+      return toHex(bytes);
+    case 'base64':
+      return toBase64(bytes, false);
+    case 'base64url':
+      return toBase64(bytes, true);
+    case 'binary':
+      return Array.from(bytes, (b) => b.toString(2).padStart(8, '0')).join(' ');
+    default:
+      return bytesToText(bytes);
+  }
+};
+
+/** Returns an error message when the text is not valid in the encoding, or null. */
+export const validateEncoding = (text: string, encoding: Encoding): string | null => {
+  try {
+    decodeText(text, encoding);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid input';
+  }
+};
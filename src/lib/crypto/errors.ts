@@ -0,0 +1,30 @@
+/**
+ * Raised when an authenticated mode rejects a message because its tag does not
+ * match, meaning the ciphertext, AAD, key or IV was altered.
+ */
+export class AuthenticationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthenticationError';
+  }
+}
+
+/** Raised when decrypted data does not end with valid padding for the chosen scheme. */
+export class PaddingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PaddingError';
+  }
+}
+
+/** Rebuilds an error that crossed a worker boundary, where only its name and message survive. */
+export const reviveError = ({ name, message }: { name: string; message: string }): Error => {
+  switch (name) {
+    case 'AuthenticationError':
+      return new AuthenticationError(message);
+    case 'PaddingError':
+      return new PaddingError(message);
+    default:
+      return new Error(message);
+  }
+};
@@ -0,0 +1,129 @@
+/** Fletcher's position-dependent checksums and Adler-32 (RFC 1950), its zlib variant. */
+import { Encoding, decodeText } from './encoding';
+import { reportProgress } from './stream';
+import { annotation, bytesValue, tableValue } from './trace';
+import type { ChecksumStep, EngineResult, Step } from './types';
+
+export type FletcherVariant = 'fletcher16' | 'fletcher32' | 'adler32';
+
+interface FletcherParameters {
+  name: string;
+  /** Both running sums are kept modulo this number. */
+  modulus: number;
+  /** Bytes per word added: Fletcher-32 sums 16-bit words, the others single bytes. */
+  wordBytes: 1 | 2;
+  /** Width of each sum; the checksum is twice as wide. */
+  sumBits: 8 | 16;
+  /** Starting value of the first sum; Adler-32 starts at 1 so that leading zero bytes count. */
+  initial: number;
+}
+
+export const FLETCHER_VARIANTS: Record<FletcherVariant, FletcherParameters> = {
+  fletcher16: { name: 'Fletcher-16', modulus: 255, wordBytes: 1, sumBits: 8, initial: 0 },
+  fletcher32: { name: 'Fletcher-32', modulus: 65535, wordBytes: 2, sumBits: 16, initial: 0 },
+  adler32: { name: 'Adler-32', modulus: 65521, wordBytes: 1, sumBits: 16, initial: 1 },
+};
+
+/** Splits data into bytes, or into little-endian 16-bit words with a zero byte padding an odd length. */
+const toWords = (data: Uint8Array, wordBytes: 1 | 2): number[] => {
+  if (wordBytes === 1) return Array.from(data);
+  const words: number[] = [];
+  for (let i = 0; i < data.length; i += 2) {
+    words.push(data[i] | ((data[i + 1] ?? 0) << 8));
+  }
+  return words;
+};
+
+const hexSum = (value: number, { sumBits }: FletcherParameters): string => value.toString(16).padStart(sumBits / 4, '0');
+
+/** Computes the checksum without tracing: the second sum in the high half, the first in the low half. */
+export const fletcher = (data: Uint8Array, variant: FletcherVariant): number => {
+  const parameters = FLETCHER_VARIANTS[variant];
+  let a = parameters.initial;
+  let b = 0;
+  toWords(data, parameters.wordBytes).forEach((word) => {
+    a = (a + word) % parameters.modulus;
+    b = (b + a) % parameters.modulus;
+  });
+  return ((b << parameters.sumBits) | a) >>> 0;
+};
+
+/**
+ * Computes a Fletcher-style checksum, tracing both running sums word by
+ * word, or verifies the data against a received checksum.
+ */
+export const runFletcher = (
+  input: string,
+  direction: 'generate' | 'verify',
+  expectedChecksum = '',
+  { variant = 'adler32', inputEncoding = 'utf8' }: { variant?: FletcherVariant; inputEncoding?: Encoding } = {},
+  steps: Step[] = []
+): EngineResult => {
+  const parameters = FLETCHER_VARIANTS[variant];
+  const { name, modulus, wordBytes, sumBits: bits, initial } = parameters;
+  const push = (operation: ChecksumStep['operation'], step: Omit<ChecksumStep, 'kind' | 'operation'>) => {
+    steps.push({ kind: 'checksum', operation, ...step });
+  };
+  const data = decodeText(input, inputEncoding);
+  const words = toWords(data, wordBytes);
+  const unit = wordBytes === 1 ? 'byte' : 'word';
+
+  push('divide', {
+    title: wordBytes === 1 ? 'Bytes' : 'Word Division',
+    description: wordBytes === 1
+      ? `${name} adds the ${data.length} input bytes one at a time. Sum A starts at ${initial} and sum B at 0, both kept modulo ${modulus}.`
+      : `The ${data.length} input bytes are read as ${words.length} little-endian 16-bit words${
+        data.length % 2 === 1 ? ', padding the odd final byte with a zero byte' : ''
+      }. Both sums start at 0 and are kept modulo ${modulus}.`,
+    values: [bytesValue('Data', data)],
+  });
+
+  let a = initial;
+  let b = 0;
+  words.forEach((word, index) => {
+    const previousA = a;
+    const previousB = b;
+    a = (a + word) % modulus;
+    b = (b + a) % modulus;
+    push('add', {
+      title: `Add ${unit} ${index + 1}`,
+      description: `A adds the ${unit} itself, so it is a plain sum. B adds every new A, so a ${unit} counts once for each position after it, which is what makes reordering visible.`,
+      values: [
+        tableValue('Running sums', ['Sum', 'Formula', 'Value'], [
+          ['A', `(${previousA} + ${word}) mod ${modulus}`, String(a)],
+          ['B', `(${previousB} + ${a}) mod ${modulus}`, String(b)],
+        ]),
+      ],
+      result: `${hexSum(b, parameters)}${hexSum(a, parameters)}`,
+    });
+    reportProgress(steps, index + 1, words.length);
+  });
+
+  const checksum = ((b << bits) | a) >>> 0;
+  const hex = checksum.toString(16).padStart(bits / 2, '0');
+  push('combine', {
+    title: 'Combine Sums',
+    description: `The ${2 * bits}-bit checksum is B in the high ${bits} bits followed by A in the low ${bits} bits.`,
+    values: [tableValue(name, ['Part', 'Value'], [['B', hexSum(b, parameters)], ['A', hexSum(a, parameters)], ['B ‖ A', hex]])],
+    result: hex,
+  });
+  if (direction === 'generate') return { steps, result: hex };
+
+  if (!new RegExp(`^(0x)?[0-9a-f]{${bits / 2}}$`, 'i').test(expectedChecksum)) {
+    throw new Error(`The ${name} checksum to verify must be ${bits / 2} hexadecimal digits`);
+  }
+  const expected = Number.parseInt(expectedChecksum.replace(/^0x/i, ''), 16);
+  const valid = expected === checksum;
+  push('compare', {
+    title: 'Compare Checksums',
+    description: 'The receiver recomputes both sums over the data it got and compares the result with the checksum that came with it.',
+    values: [
+      tableValue('Checksums', ['', 'Value'], [['Received', expected.toString(16).padStart(bits / 2, '0')], ['Computed', hex]]),
+      valid
+        ? annotation('The checksums match: no error detected.', 'success')
+        : annotation('The checksums differ: the data or the checksum was corrupted.', 'warning'),
+    ],
+    result: valid ? 'valid' : 'invalid',
+  });
+  return { steps, result: `${hex} (${valid ? 'valid' : 'invalid'})` };
+};
@@ -0,0 +1,212 @@
+import { concatBytes, toHex, xorBytes } from './bytes';
+import { AuthenticationError } from './errors';
+import type { BlockCipher } from './modes';
+import { reportProgress } from './stream';
+import { annotation, bytesValue } from './trace';
+import type { Step } from './types';
+
+export const GCM_TAG_LENGTH = 16;
+
+/**
+ * Multiplies two elements of GF(2^128) using the bit-reflected convention of
+ * SP 800-38D: bit 0 is the most significant bit of byte 0 and the field is
+ * reduced by R = 11100001 || 0^120.
+ */
+export const gfMultiply = (x: Uint8Array, y: Uint8Array): Uint8Array => {
+  const z = new Uint8Array(16);
+  const v = Uint8Array.from(y);
+  for (let i = 0; i < 128; i++) {
+    if ((x[i >> 3] >> (7 - (i % 8))) & 1) {
+      for (let j = 0; j < 16; j++) z[j] ^= v[j];
+    }
+    const lsb = v[15] & 1;
+    for (let j = 15; j > 0; j--) {
+      v[j] = (v[j] >> 1) | ((v[j - 1] & 1) << 7);
+    }
+    v[0] >>= 1;
+    if (lsb) v[0] ^= 0xe1;
+  }
+  return z;
+};
+
+/** Increments the rightmost 32 bits of the counter block modulo 2^32. */
+const inc32 = (block: Uint8Array): Uint8Array => {
+  const next = Uint8Array.from(block);
+  for (let i = 15; i >= 12; i--) {
+    next[i] = (next[i] + 1) & 0xff;
+    if (next[i] !== 0) break;
+  }
+  return next;
+};
+
+const lengthBlock = (aadLength: number, dataLength: number): Uint8Array => {
+  const block = new Uint8Array(16);
+  const view = new DataView(block.buffer);
+  // Lengths are in bits; inputs here never come close to 2^53 bits.
+  view.setUint32(4, aadLength * 8);
+  view.setUint32(12, dataLength * 8);
+  return block;
+};
+
+const padToBlock = (data: Uint8Array): Uint8Array => {
+  const padded = new Uint8Array(Math.ceil(data.length / 16) * 16);
+  padded.set(data);
+  return padded;
+};
+
+/** GHASH over the given blocks, tracing the running value Y after each multiplication. */
+const ghash = (h: Uint8Array, parts: { label: string; data: Uint8Array }[], steps: Step[]): Uint8Array => {
+  let y = new Uint8Array(16);
+  parts.forEach(({ label, data }) => {
+    for (let offset = 0; offset < data.length; offset += 16) {
+      const block = data.slice(offset, offset + 16);
+      y = gfMultiply(xorBytes(y, block), h);
+      steps.push({
+        kind: 'gcm',
+        operation: 'ghash',
+        title: `GHASH: ${label}${data.length > 16 ? ` block ${offset / 16 + 1}` : ''}`,
+        description: 'Y = (Y XOR block) · H in GF(2^128).',
+        values: [bytesValue('Block', block), bytesValue('Y', y)],
+      });
+    }
+  });
+  return y;
+};
+
+interface GcmContext {
+  h: Uint8Array;
+  j0: Uint8Array;
+}
+
+const setup = (cipher: BlockCipher, iv: Uint8Array, steps: Step[]): GcmContext => {
+  const h = cipher.encryptBlock(new Uint8Array(16), steps, 'Hash Key · ');
+  steps.push({
+    kind: 'gcm',
+    operation: 'hashKey',
+    title: 'GCM: Hash Subkey H',
+    description: 'H is the encryption of the all-zero block; GHASH multiplies by it in GF(2^128).',
+    values: [bytesValue('H', h)],
+  });
+
+  const j0 = iv.length === 12
+    ? concatBytes(iv, Uint8Array.of(0, 0, 0, 1))
+    : ghash(h, [{ label: 'IV', data: concatBytes(padToBlock(iv), lengthBlock(0, iv.length)) }], steps);
+  steps.push({
+    kind: 'gcm',
+    operation: 'preCounter',
+    title: 'GCM: Pre-counter Block J0',
+    description: iv.length === 12
+      ? 'With a 96-bit IV, J0 is the IV followed by the 32-bit counter 1.'
+      : 'For IVs other than 96 bits, J0 is the GHASH of the padded IV and its length.',
+    values: [bytesValue('J0', j0)],
+  });
+  return { h, j0 };
+};
+
+const ctrTransform = (cipher: BlockCipher, j0: Uint8Array, data: Uint8Array, steps: Step[]): Uint8Array => {
+  const output = new Uint8Array(data.length);
+  let counter = j0;
+  const blockCount = Math.ceil(data.length / 16);
+  for (let index = 0; index < blockCount; index++) {
+    counter = inc32(counter);
+    const label = blockCount > 1 ? `Block ${index + 1} · ` : '';
+    steps.push({
+      kind: 'gcm',
+      operation: 'counter',
+      title: `${label}GCM: Counter`,
+      description: 'The low 32 bits of the counter are incremented (inc32) and the block is encrypted to form the keystream.',
+      values: [bytesValue('Counter', counter)],
+    });
+    const keystream = cipher.encryptBlock(counter, steps, label);
+    const block = data.slice(index * 16, index * 16 + 16);
+    const out = xorBytes(block, keystream.slice(0, block.length));
+    output.set(out, index * 16);
+    steps.push({
+      kind: 'gcm',
+      operation: 'keystreamXor',
+      title: `${label}GCM: XOR with Keystream`,
+      description: 'The block is XORed with the keystream.',
+      values: [bytesValue('Keystream', keystream.slice(0, block.length)), bytesValue('Output', out)],
+    });
+    reportProgress(steps, index + 1, blockCount);
+  }
+  return output;
+};
+
+const computeTag = (
+  cipher: BlockCipher,
+  { h, j0 }: GcmContext,
+  aad: Uint8Array,
+  ciphertext: Uint8Array,
+  steps: Step[]
+): Uint8Array => {
+  const s = ghash(
+    h,
+    [
+      { label: 'AAD', data: padToBlock(aad) },
+      { label: 'Ciphertext', data: padToBlock(ciphertext) },
+      { label: 'Lengths', data: lengthBlock(aad.length, ciphertext.length) },
+    ],
+    steps
+  );
+  const mask = cipher.encryptBlock(j0, steps, 'Tag Mask · ');
+  const tag = xorBytes(s, mask);
+  steps.push({
+    kind: 'gcm',
+    operation: 'tag',
+    title: 'GCM: Authentication Tag',
+    description: 'The tag is GHASH(AAD, C) XORed with E(K, J0).',
+    values: [bytesValue('GHASH(AAD, C)', s), bytesValue('E(K, J0)', mask), bytesValue('Tag', tag)],
+    result: toHex(tag),
+  });
+  return tag;
+};
+
+/** Encrypts with AES-GCM, returning the ciphertext followed by the 16-byte tag. */
+export const gcmEncrypt = (
+  cipher: BlockCipher,
+  iv: Uint8Array,
+  plaintext: Uint8Array,
+  aad: Uint8Array,
+  steps: Step[]
+): Uint8Array => {
+  const context = setup(cipher, iv, steps);
+  const ciphertext = ctrTransform(cipher, context.j0, plaintext, steps);
+  const tag = computeTag(cipher, context, aad, ciphertext, steps);
+  return concatBytes(ciphertext, tag);
+};
+
+/**
+ * Verifies the trailing tag before releasing any plaintext, throwing an
+ * AuthenticationError when the recomputed tag does not match.
+ */
+export const gcmDecrypt = (
+  cipher: BlockCipher,
+  iv: Uint8Array,
+  sealed: Uint8Array,
+  aad: Uint8Array,
+  steps: Step[]
+): Uint8Array => {
+  if (sealed.length < GCM_TAG_LENGTH) {
+    throw new Error(`GCM input must end with a ${GCM_TAG_LENGTH}-byte authentication tag`);
+  }
+  const ciphertext = sealed.slice(0, sealed.length - GCM_TAG_LENGTH);
+  const received = sealed.slice(sealed.length - GCM_TAG_LENGTH);
+
+  const context = setup(cipher, iv, steps);
+  const expected = computeTag(cipher, context, aad, ciphertext, steps);
+  const difference = expected.reduce((acc, byte, i) => acc | (byte ^ received[i]), 0);
+  if (difference !== 0) {
+    throw new AuthenticationError(
+      `the computed tag ${toHex(expected)} does not match the received tag ${toHex(received)}, so the ciphertext, associated data, key or IV has been tampered with`
+    );
+  }
+  steps.push({
+    kind: 'gcm',
+    operation: 'tagVerified',
+    title: 'GCM: Tag Verified',
+    description: 'The recomputed tag matches the received one, so the ciphertext and associated data are authentic.',
+    values: [bytesValue('Received tag', received), annotation('No plaintext is released until this check passes.', 'success')],
+  });
+  return ctrTransform(cipher, context.j0, ciphertext, steps);
+};
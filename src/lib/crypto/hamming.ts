@@ -0,0 +1,256 @@
+/** Hamming(7,4) and its extended single-error-correcting, double-error-detecting form, Hamming(8,4). */
+import { Encoding, decodeText, encodeBytes } from './encoding';
+import { reportProgress } from './stream';
+import { annotation, bytesValue, codewordValue, tableValue } from './trace';
+import type { EngineResult, HammingOperation, HammingStep, Step, TraceValue } from './types';
+
+export type HammingCode = 'hamming74' | 'secded';
+
+export const HAMMING_CODES: Record<HammingCode, { name: string; description: string }> = {
+  hamming74: { name: 'Hamming(7,4)', description: 'corrects any single-bit error' },
+  secded: { name: 'SECDED Hamming(8,4)', description: 'corrects single-bit errors and detects double-bit errors' },
+};
+
+/** Parity bits sit at the powers of two; parity bit p covers every position whose number has bit p set. */
+const PARITY_POSITIONS = [1, 2, 4];
+const DATA_POSITIONS = [3, 5, 6, 7];
+const HAMMING_POSITIONS = [1, 2, 3, 4, 5, 6, 7];
+
+const coveredBy = (parity: number): number[] => HAMMING_POSITIONS.filter((position) => (position & parity) !== 0);
+
+const xorOf = (bits: number[], positions: number[]): number => positions.reduce((sum, position) => sum ^ bits[position], 0);
+
+/** SECDED adds an overall parity bit, written as position 0. */
+const positionsOf = (code: HammingCode): number[] => (code === 'secded' ? [0, ...HAMMING_POSITIONS] : HAMMING_POSITIONS);
+
+const parityOf = (code: HammingCode): number[] => (code === 'secded' ? [0, ...PARITY_POSITIONS] : PARITY_POSITIONS);
+
+const dataName = (position: number): string => `d${DATA_POSITIONS.indexOf(position) + 1}`;
+
+const bitName = (position: number): string => (DATA_POSITIONS.includes(position) ? dataName(position) : `p${position}`);
+
+/** The codeword in transmission order. */
+const codewordText = (bits: number[], code: HammingCode): string => positionsOf(code).map((position) => bits[position]).join('');
+
+const codeword = (label: string, bits: number[], code: HammingCode, highlight?: number[]): TraceValue =>
+  codewordValue(label, positionsOf(code).map((position) => bits[position]), positionsOf(code), parityOf(code), highlight);
+
+const nibbleBits = (nibble: number): string => nibble.toString(2).padStart(4, '0');
+
+/** Encodes four data bits, most significant first, into a codeword indexed by bit position. */
+export const encodeNibble = (nibble: number, code: HammingCode): number[] => {
+  const bits = new Array<number>(8).fill(0);
+  DATA_POSITIONS.forEach((position, i) => {
+    bits[position] = (nibble >>> (3 - i)) & 1;
+  });
+  PARITY_POSITIONS.forEach((parity) => {
+    bits[parity] = xorOf(bits, coveredBy(parity).filter((position) => position !== parity));
+  });
+  if (code === 'secded') bits[0] = xorOf(bits, HAMMING_POSITIONS);
+  return bits;
+};
+
+const decodeNibble = (bits: number[]): number => DATA_POSITIONS.reduce((nibble, position) => (nibble << 1) | bits[position], 0);
+
+/** The syndrome s4 s2 s1 read as a number: the position of a single flipped bit, or 0 when every check passes. */
+export const syndromeOf = (bits: number[]): number =>
+  PARITY_POSITIONS.reduce((syndrome, parity) => syndrome | (xorOf(bits, coveredBy(parity)) ? parity : 0), 0);
+
+type Outcome = 'clean' | 'corrected' | 'double';
+
+export interface HammingOptions {
+  code?: HammingCode;
+  /** Codeword to corrupt, counted from 1. */
+  corruptCodeword?: number;
+  /** Bit positions flipped in that codeword on the way through the channel. */
+  corruptPositions?: number[];
+  inputEncoding?: Encoding;
+  outputEncoding?: Encoding;
+}
+
+/**
+ * Encodes the input four bits at a time. When correcting, one codeword is
+ * corrupted as requested and every codeword is checked: the syndrome names
+ * the flipped position, and SECDED's overall parity tells a single error,
+ * which it corrects, from a double error, which it can only report.
+ */
+export const runHamming = (
+  input: string,
+  action: 'encode' | 'correct',
+  { code = 'hamming74', corruptCodeword = 1, corruptPositions = [], inputEncoding = 'utf8', outputEncoding = 'utf8' }: HammingOptions = {},
+  steps: Step[] = []
+): EngineResult => {
+  const { name } = HAMMING_CODES[code];
+  const length = positionsOf(code).length;
+  const data = decodeText(input, inputEncoding);
+  if (data.length === 0) throw new Error('There is no data to encode');
+  const push = (operation: HammingOperation, group: string[], step: Omit<HammingStep, 'kind' | 'operation' | 'group'>) => {
+    steps.push({ kind: 'hamming', operation, group, ...step });
+  };
+
+  const nibbles = Array.from(data).flatMap((byte) => [byte >>> 4, byte & 0x0f]);
+  push('split', ['Encode'], {
+    title: 'Split into Nibbles',
+    description: `${name} protects four data bits at a time, so each of the ${data.length} bytes becomes two nibbles, high nibble first.`,
+    values: [
+      bytesValue('Data', data),
+      tableValue('Nibbles', ['Codeword', 'Byte', 'Nibble'], nibbles.map((nibble, i) => [i + 1, `0x${data[i >> 1].toString(16).padStart(2, '0')}`, nibbleBits(nibble)])),
+    ],
+  });
+
+  const total = nibbles.length * (action === 'correct' ? 2 : 1);
+  const sent = nibbles.map((nibble, i) => {
+    const bits = encodeNibble(nibble, code);
+    const rows = PARITY_POSITIONS.map((parity) => {
+      const sources = coveredBy(parity).filter((position) => position !== parity);
+      return [
+        `p${parity}`,
+        coveredBy(parity).join(', '),
+        `${sources.map(dataName).join(' ⊕ ')} = ${sources.map((position) => bits[position]).join(' ⊕ ')}`,
+        bits[parity],
+      ];
+    });
+    if (code === 'secded') rows.push(['p0', '1–7', `p1 ⊕ p2 ⊕ … ⊕ d4 = ${HAMMING_POSITIONS.map((position) => bits[position]).join(' ⊕ ')}`, bits[0]]);
+    push('encode', ['Encode', `Codeword ${i + 1}`], {
+      title: `Encode Nibble ${nibbleBits(nibble)}`,
+      description: `The data bits fill positions 3, 5, 6 and 7. Each parity bit at a power of two makes the XOR of the positions it covers zero${
+        code === 'secded' ? ', and p0 makes the whole codeword have even parity' : ''
+      }.`,
+      values: [tableValue('Parity bits', ['Bit', 'Covers positions', 'Equation', 'Value'], rows), codeword('Codeword', bits, code)],
+      result: codewordText(bits, code),
+      codeword: i + 1,
+    });
+    reportProgress(steps, i + 1, total);
+    return bits;
+  });
+
+  push('codewords', ['Encode'], {
+    title: 'Codewords',
+    description: `The ${nibbles.length * 4} data bits became ${nibbles.length * length} code bits, a rate of 4/${length}. The parity bits are the price of being able to locate an error.`,
+    values: [tableValue('Codewords', ['#', 'Nibble', 'Codeword'], sent.map((bits, i) => [i + 1, nibbleBits(nibbles[i]), codewordText(bits, code)]))],
+  });
+  if (action === 'encode') return { steps, result: sent.map((bits) => codewordText(bits, code)).join(' ') };
+
+  if (!Number.isInteger(corruptCodeword) || corruptCodeword < 1 || corruptCodeword > sent.length) {
+    throw new Error(`The codeword to corrupt must be between 1 and ${sent.length}`);
+  }
+  const allowed = positionsOf(code);
+  const invalid = corruptPositions.find((position) => !allowed.includes(position));
+  if (invalid !== undefined) throw new Error(`${name} has no bit position ${invalid}; use ${allowed[0]} to 7`);
+  if (new Set(corruptPositions).size !== corruptPositions.length) throw new Error('Flip each bit position at most once');
+
+  const received = sent.map((bits) => [...bits]);
+  corruptPositions.forEach((position) => {
+    received[corruptCodeword - 1][position] ^= 1;
+  });
+  push('corrupt', ['Channel'], {
+    title: 'Corrupt the Channel',
+    description: corruptPositions.length
+      ? `Bit${corruptPositions.length > 1 ? 's' : ''} ${corruptPositions.join(' and ')} of codeword ${corruptCodeword} ${corruptPositions.length > 1 ? 'are' : 'is'} flipped in transit. The receiver does not know which, or whether any were.`
+      : 'No bits are flipped, so every codeword arrives intact.',
+    values: [
+      codeword(`Sent codeword ${corruptCodeword}`, sent[corruptCodeword - 1], code),
+      codeword(`Received codeword ${corruptCodeword}`, received[corruptCodeword - 1], code, corruptPositions),
+    ],
+    codeword: corruptCodeword,
+  });
+
+  const outcomes = received.map((bits, i): Outcome => {
+    const group = ['Correct', `Codeword ${i + 1}`];
+    const syndrome = syndromeOf(bits);
+    const overall = xorOf(bits, positionsOf(code));
+    const rows = PARITY_POSITIONS.map((parity) => [
+      `s${parity}`,
+      coveredBy(parity).map(bitName).join(' ⊕ '),
+      coveredBy(parity).map((position) => bits[position]).join(' ⊕ '),
+      xorOf(bits, coveredBy(parity)),
+    ]);
+    if (code === 'secded') rows.push(['overall', 'p0 ⊕ … ⊕ d4', positionsOf(code).map((position) => bits[position]).join(' ⊕ '), overall]);
+    const binary = [4, 2, 1].map((parity) => ((syndrome & parity) !== 0 ? 1 : 0)).join('');
+    push('syndrome', group, {
+      title: 'Syndrome',
+      description: `Each check XORs the positions its parity bit covers, which is 0 for a valid codeword. Read as s4 s2 s1, the syndrome ${binary} = ${syndrome} ${
+        syndrome === 0 ? 'means every check passes' : `points at position ${syndrome}, the only one covered by exactly the failing checks`
+      }${code === 'secded' ? `, and the overall parity is ${overall === 0 ? 'even' : 'odd'}` : ''}.`,
+      values: [tableValue('Parity checks', ['Check', 'Positions', 'Received bits', 'Result'], rows), codeword('Received', bits, code)],
+      result: String(syndrome),
+      codeword: i + 1,
+    });
+
+    let outcome: Outcome;
+    let flip: number | null = null;
+    let verdict: string;
+    if (code === 'secded' && syndrome !== 0 && overall === 0) {
+      outcome = 'double';
+      verdict = 'The syndrome is not zero but the overall parity is even, so an even number of bits flipped. SECDED reports a double error instead of guessing; the data must be sent again.';
+    } else if (code === 'secded' && overall === 1) {
+      outcome = 'corrected';
+      flip = syndrome;
+      verdict = syndrome === 0
+        ? 'Only the overall parity fails, so the error is in p0 itself. Flipping it back leaves the data untouched.'
+        : `The overall parity is odd, so exactly one bit flipped, and the syndrome says it is position ${syndrome}. Flipping it back corrects the codeword.`;
+    } else if (syndrome !== 0) {
+      outcome = 'corrected';
+      flip = syndrome;
+      verdict = `Assuming a single error, it is at position ${syndrome} (${bitName(syndrome)}). Flipping it back corrects the codeword.`;
+    } else {
+      outcome = 'clean';
+      verdict = 'Every check passes, so the codeword is accepted as it is.';
+    }
+    const corrected = [...bits];
+    if (flip !== null) corrected[flip] ^= 1;
+    const wrong = outcome !== 'double' && corrected.some((bit, position) => bit !== sent[i][position]);
+    push('correct', group, {
+      title: outcome === 'double' ? 'Double Error Detected' : outcome === 'corrected' ? `Correct Position ${flip}` : 'No Error',
+      description: verdict,
+      values: [
+        ...(outcome === 'corrected' ? [codeword('Corrected', corrected, code, [flip])] : []),
+        ...(wrong
+          ? [
+            annotation(
+              `The result differs from the codeword that was sent: ${corruptPositions.length} bits flipped, more than ${name} can correct. ${
+                code === 'secded'
+                  ? 'No SECDED decoder can catch every pattern of three or more errors.'
+                  : `It cannot tell ${corruptPositions.length} flipped bits from ${flip === null ? 'none' : 'one'}, so it delivers wrong data. SECDED would detect two.`
+              }`,
+              'warning'
+            ),
+          ]
+          : []),
+      ],
+      result: codewordText(corrected, code),
+      codeword: i + 1,
+    });
+    if (flip !== null) received[i] = corrected;
+    reportProgress(steps, nibbles.length + i + 1, total);
+    return outcome;
+  });
+
+  const decodedNibbles = received.map(decodeNibble);
+  const decoded = Uint8Array.from({ length: data.length }, (_, i) => (decodedNibbles[2 * i] << 4) | decodedNibbles[2 * i + 1]);
+  const correctedCount = outcomes.filter((outcome) => outcome === 'corrected').length;
+  const doubles = outcomes.flatMap((outcome, i) => (outcome === 'double' ? [i + 1] : []));
+  const matches = decoded.every((byte, i) => byte === data[i]);
+  push('decode', ['Decode'], {
+    title: 'Extract the Data',
+    description: 'The data bits are read back from positions 3, 5, 6 and 7 of every codeword, and pairs of nibbles are joined into bytes.',
+    values: [
+      tableValue('Decoded nibbles', ['#', 'Codeword', 'Outcome', 'Nibble'], received.map((bits, i) => [
+        i + 1,
+        codewordText(bits, code),
+        outcomes[i] === 'double' ? 'double error, not corrected' : outcomes[i],
+        nibbleBits(decodedNibbles[i]),
+      ])),
+      bytesValue('Decoded data', decoded),
+      matches
+        ? annotation('The decoded data equals the data that was sent.', 'success')
+        : annotation('The decoded data differs from the data that was sent.', 'warning'),
+    ],
+  });
+
+  const summary = [
+    ...(correctedCount ? [`${correctedCount} error${correctedCount > 1 ? 's' : ''} corrected`] : []),
+    ...(doubles.length ? [`double error detected in codeword ${doubles.join(', ')}`] : []),
+  ];
+  return { steps, result: `${encodeBytes(decoded, outputEncoding)} (${summary.length ? summary.join(', ') : 'no errors'})` };
+};
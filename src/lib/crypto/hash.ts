@@ -0,0 +1,159 @@
+/** The Merkle–Damgård construction shared by MD5, SHA-1 and SHA-256. */
+import { toHex, utf8ToBytes } from './bytes';
+import { Encoding, decodeText, encodeBytes } from './encoding';
+import { reportProgress } from './stream';
+import { annotation, bytesValue, numberValue, tableValue } from './trace';
+import type { EngineResult, HashOperation, HashStep, Step, TraceValue } from './types';
+
+export const rotl = (x: number, n: number): number => (x << n) | (x >>> (32 - n));
+
+export const rotr = (x: number, n: number): number => (x >>> n) | (x << (32 - n));
+
+export const hex32 = (word: number): string => (word >>> 0).toString(16).padStart(8, '0');
+
+/** Pushes a schedule or round step of the block being compressed. */
+export type HashEmit = (operation: 'schedule' | 'round', step: Omit<HashStep, 'kind' | 'operation' | 'block'>) => void;
+
+export interface MerkleDamgardHash {
+  name: string;
+  /** Byte order of block words, the length field and the digest: little-endian for MD5, big-endian for the SHA family. */
+  littleEndian: boolean;
+  initial: number[];
+  registers: string[];
+  /** Where the initial chaining value comes from. */
+  initialDescription: string;
+  /**
+   * Runs the rounds over one block's sixteen words starting from the chaining
+   * value, and returns the working variables to add back onto it. Steps are
+   * only traced when `emit` is given.
+   */
+  compress: (words: Uint32Array, state: number[], emit?: HashEmit) => number[];
+}
+
+/** A published message and digest the trace can be checked against. */
+export interface HashExample {
+  message: string;
+  digest: string;
+  source: string;
+}
+
+/** Compares a digest with the published example for the same message, if there is one. */
+export const exampleCheck = (examples: HashExample[], message: Uint8Array, digest: Uint8Array): TraceValue[] => {
+  const example = examples.find((candidate) => toHex(utf8ToBytes(candidate.message)) === toHex(message));
+  if (!example) return [];
+  return [
+    example.digest === toHex(digest)
+      ? annotation(`Matches the ${example.source} digest for "${example.message}".`, 'success')
+      : annotation(`Differs from the ${example.source} digest ${example.digest}.`, 'warning'),
+  ];
+};
+
+/** Appends 0x80, zeros and the 64-bit bit length so the message fills whole 64-byte blocks. */
+export const padMessage = (message: Uint8Array, littleEndian = false): Uint8Array => {
+  const length = Math.ceil((message.length + 9) / 64) * 64;
+  const padded = new Uint8Array(length);
+  padded.set(message);
+  padded[message.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  const bits = message.length * 8;
+  const high = Math.floor(bits / 0x100000000);
+  const low = bits >>> 0;
+  view.setUint32(length - 8, littleEndian ? low : high, littleEndian);
+  view.setUint32(length - 4, littleEndian ? high : low, littleEndian);
+  return padded;
+};
+
+/**
+ * Pads the message, compresses it block by block and adds each block's
+ * result onto the chaining value. With `steps`, every stage is traced and
+ * multi-block messages get one group per block.
+ */
+export const merkleDamgard = (hash: MerkleDamgardHash, message: Uint8Array, steps?: Step[]): Uint8Array => {
+  const { littleEndian, registers } = hash;
+  const padded = padMessage(message, littleEndian);
+  const view = new DataView(padded.buffer);
+  const blockCount = padded.length / 64;
+  const state = [...hash.initial];
+
+  const push = (operation: HashOperation, block: number | undefined, step: Omit<HashStep, 'kind' | 'operation' | 'block'>) => {
+    const grouped = block !== undefined && blockCount > 1;
+    steps?.push({
+      kind: 'hash',
+      operation,
+      block,
+      ...step,
+      ...(grouped ? { title: `Block ${block} · ${step.title}` } : {}),
+      ...(grouped || step.group ? { group: [...(grouped ? [`Block ${block}`] : []), ...(step.group ?? [])] } : {}),
+    });
+  };
+
+  if (steps) {
+    push('init', undefined, {
+      title: 'Initial Hash Value',
+      description: hash.initialDescription,
+      values: [tableValue('Initial value', ['Register', 'Value'], state.map((word, i) => [registers[i], hex32(word)]))],
+    });
+    push('pad', undefined, {
+      title: 'Padding and Length Encoding',
+      description: `A 1 bit (0x80), then zeros until the length is 448 mod 512 bits, then the original length as a 64-bit ${
+        littleEndian ? 'little' : 'big'
+      }-endian number. The ${message.length}-byte message becomes ${blockCount} block${blockCount > 1 ? 's' : ''} of 512 bits.`,
+      values: [
+        numberValue('Message length (bits)', BigInt(message.length * 8)),
+        bytesValue('Padded message', padded, Array.from({ length: padded.length - message.length }, (_, i) => message.length + i)),
+      ],
+    });
+  }
+
+  const words = new Uint32Array(16);
+  for (let block = 1; block <= blockCount; block++) {
+    for (let t = 0; t < 16; t++) words[t] = view.getUint32((block - 1) * 64 + t * 4, littleEndian);
+    const working = hash.compress(words, [...state], steps && ((operation, step) => push(operation, block, step)));
+    const previous = [...state];
+    working.forEach((word, i) => {
+      state[i] = (state[i] + word) >>> 0;
+    });
+    if (steps) {
+      push('chain', block, {
+        title: 'Update Hash Value',
+        description: 'The working variables are added word by word to the chaining value the block started from (Davies–Meyer feed-forward), so the compression cannot simply be run backwards.',
+        values: [
+          tableValue('Chaining value', ['Register', 'Previous', 'Working', 'New'], state.map((word, i) => [
+            registers[i],
+            hex32(previous[i]),
+            hex32(working[i]),
+            hex32(word),
+          ])),
+        ],
+      });
+      reportProgress(steps, block, blockCount);
+    }
+  }
+
+  const digest = new Uint8Array(state.length * 4);
+  const out = new DataView(digest.buffer);
+  state.forEach((word, i) => out.setUint32(i * 4, word, littleEndian));
+  return digest;
+};
+
+/** Hashes the input with a full trace, ending with the digest and a check against published examples. */
+export const runHash = (
+  hash: MerkleDamgardHash,
+  input: string,
+  { inputEncoding = 'utf8', outputEncoding = 'hex' }: { inputEncoding?: Encoding; outputEncoding?: Encoding } = {},
+  steps: Step[] = [],
+  examples: HashExample[] = []
+): EngineResult => {
+  const message = decodeText(input, inputEncoding);
+  const digest = merkleDamgard(hash, message, steps);
+  const result = encodeBytes(digest, outputEncoding);
+  steps.push({
+    kind: 'hash',
+    operation: 'digest',
+    title: 'Digest',
+    description: `The final chaining value ${hash.registers.join(' ‖ ')}, written ${hash.littleEndian ? 'little' : 'big'}-endian, is the ${digest.length * 8}-bit ${hash.name} digest.`,
+    values: [bytesValue('Digest', digest), ...exampleCheck(examples, message, digest)],
+    result,
+  });
+  return { steps, result };
+};
@@ -0,0 +1,149 @@
+/** HMAC (RFC 2104) over SHA-256. */
+import { concatBytes, fromHex, toHex, utf8ToBytes } from './bytes';
+import { Encoding, decodeText, encodeBytes } from './encoding';
+import { sha256 } from './sha256';
+import { reportProgress } from './stream';
+import { annotation, bytesValue, inGroup, keyValue, tableValue } from './trace';
+import type { EngineResult, HmacOperation, HmacStep, Step } from './types';
+
+const BLOCK_SIZE = 64;
+const IPAD = 0x36;
+const OPAD = 0x5c;
+
+/** Test case 2 of RFC 4231: the key "Jefe" and a short message, used as the default and to confirm the trace. */
+export const RFC4231_EXAMPLE = {
+  key: '4a656665',
+  message: 'what do ya want for nothing?',
+  tag: '5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843',
+};
+
+export interface HmacOptions {
+  key?: Uint8Array;
+  inputEncoding?: Encoding;
+  outputEncoding?: Encoding;
+}
+
+/** Runs a fully traced SHA-256 call as a section of the HMAC trace, naming the call in each step title. */
+const tracedSha256 = (steps: Step[], group: string[], label: string, data: Uint8Array): Uint8Array =>
+  inGroup(steps, group, (inner) => {
+    const digest = sha256(data, inner);
+    inner.forEach((step) => {
+      step.title = `${label} · ${step.title}`;
+    });
+    return digest;
+  });
+
+const hex8 = (byte: number): string => byte.toString(16).padStart(2, '0');
+
+/**
+ * Computes HMAC-SHA256 as H((K0 ⊕ opad) ‖ H((K0 ⊕ ipad) ‖ m)), tracing the
+ * key preparation and both hash calls as nested sections. Verification
+ * compares the received tag with the computed one in constant time.
+ */
+export const runHmac = (
+  input: string,
+  action: 'generate' | 'verify',
+  expectedTag = '',
+  { key = fromHex(RFC4231_EXAMPLE.key), inputEncoding = 'utf8', outputEncoding = 'hex' }: HmacOptions = {},
+  steps: Step[] = []
+): EngineResult => {
+  const message = decodeText(input, inputEncoding);
+  const push = (operation: HmacOperation, group: string[], step: Omit<HmacStep, 'kind' | 'operation' | 'group'>) => {
+    steps.push({ kind: 'hmac', operation, group, ...step });
+  };
+
+  const keyGroup = ['Key preparation'];
+  const shortKey = key.length > BLOCK_SIZE ? tracedSha256(steps, [...keyGroup, 'Hash the long key'], 'Key hash', key) : key;
+  const k0 = new Uint8Array(BLOCK_SIZE);
+  k0.set(shortKey);
+  push('prepareKey', keyGroup, {
+    title: 'Pad the Key',
+    description: key.length > BLOCK_SIZE
+      ? `The ${key.length}-byte key is longer than the ${BLOCK_SIZE}-byte SHA-256 block, so it was hashed to 32 bytes and then padded with zeros to K0.`
+      : key.length === BLOCK_SIZE
+        ? 'The key is exactly one SHA-256 block long and is used as K0 unchanged.'
+        : `The ${key.length}-byte key is padded with zeros to the ${BLOCK_SIZE}-byte SHA-256 block size, giving K0.`,
+    values: [
+      keyValue('K', key),
+      bytesValue('K0', k0, Array.from({ length: BLOCK_SIZE - shortKey.length }, (_, i) => shortKey.length + i)),
+    ],
+  });
+  reportProgress(steps, 1, action === 'verify' ? 4 : 3);
+
+  const innerGroup = ['Inner hash'];
+  const innerKey = k0.map((byte) => byte ^ IPAD);
+  push('innerPad', innerGroup, {
+    title: 'K0 ⊕ ipad',
+    description: `Every byte of K0 is XORed with ipad = 0x${hex8(IPAD)}, and the resulting key block is placed in front of the message.`,
+    values: [bytesValue('K0 ⊕ ipad', innerKey), bytesValue('Message', message)],
+  });
+  const innerDigest = tracedSha256(steps, [...innerGroup, 'SHA-256((K0 ⊕ ipad) ‖ m)'], 'Inner', concatBytes(innerKey, message));
+  push('innerHash', innerGroup, {
+    title: 'Inner Digest',
+    description: 'The inner hash mixes the key into every block of the message. On its own it would be open to length extension, because anyone can keep hashing from its output.',
+    values: [bytesValue('SHA-256((K0 ⊕ ipad) ‖ m)', innerDigest)],
+  });
+  reportProgress(steps, 2, action === 'verify' ? 4 : 3);
+
+  const outerGroup = ['Outer hash'];
+  const outerKey = k0.map((byte) => byte ^ OPAD);
+  push('outerPad', outerGroup, {
+    title: 'K0 ⊕ opad',
+    description: `K0 is XORed with opad = 0x${hex8(OPAD)}, which differs from ipad in half its bits, so the two hash calls use unrelated key blocks.`,
+    values: [bytesValue('K0 ⊕ opad', outerKey), bytesValue('Inner digest', innerDigest)],
+  });
+  const tag = tracedSha256(steps, [...outerGroup, 'SHA-256((K0 ⊕ opad) ‖ inner)'], 'Outer', concatBytes(outerKey, innerDigest));
+  const isExample = toHex(key) === RFC4231_EXAMPLE.key && toHex(message) === toHex(utf8ToBytes(RFC4231_EXAMPLE.message));
+  push('outerHash', outerGroup, {
+    title: 'HMAC Tag',
+    description: 'The outer hash seals the inner digest under the second key block. An attacker who extends the inner hash cannot redo the outer one without the key.',
+    values: [
+      bytesValue('Tag', tag),
+      ...(isExample
+        ? [
+          toHex(tag) === RFC4231_EXAMPLE.tag
+            ? annotation('Matches the tag of RFC 4231 test case 2.', 'success')
+            : annotation(`Differs from the RFC 4231 test case 2 tag ${RFC4231_EXAMPLE.tag}.`, 'warning'),
+        ]
+        : []),
+    ],
+    result: toHex(tag),
+  });
+  const result = encodeBytes(tag, outputEncoding);
+  if (action === 'generate') {
+    reportProgress(steps, 3, 3);
+    return { steps, result };
+  }
+
+  const expected = fromHex(expectedTag.replace(/\s+/g, '').replace(/^0x/i, ''));
+  if (expected.length !== tag.length) {
+    throw new Error(`The tag to verify must be ${tag.length * 2} hexadecimal digits`);
+  }
+  let accumulator = 0;
+  const rows = Array.from(tag, (byte, i) => {
+    accumulator |= byte ^ expected[i];
+    return [i, hex8(expected[i]), hex8(byte), hex8(byte ^ expected[i]), hex8(accumulator)];
+  });
+  const firstMismatch = tag.findIndex((byte, i) => byte !== expected[i]);
+  const valid = accumulator === 0;
+  push('compare', ['Verify'], {
+    title: 'Constant-Time Comparison',
+    description: `All ${tag.length} bytes are always examined: each pair is XORed and the differences are ORed into one accumulator, which is only tested at the end. The loop does the same work wherever the tags differ.`,
+    values: [
+      tableValue('Byte comparison', ['i', 'Received', 'Computed', 'XOR', 'Accumulator'], rows),
+      annotation(
+        `${firstMismatch === -1
+          ? 'A naive comparison (== or memcmp) would also have read every byte here, because the tags match.'
+          : `A naive comparison (== or memcmp) would have stopped after ${firstMismatch + 1} byte${firstMismatch > 0 ? 's' : ''}.`
+        } Because an early exit returns sooner the earlier the mismatch, response times reveal how many leading bytes of a forged tag are right, letting an attacker find it one byte at a time in about ${tag.length} × 256 tries instead of 2²⁵⁶.`,
+        'info'
+      ),
+      valid
+        ? annotation('The accumulator is 0: the tag is authentic.', 'success')
+        : annotation('The accumulator is not 0: the tag is rejected.', 'warning'),
+    ],
+    result: valid ? 'valid' : 'invalid',
+  });
+  reportProgress(steps, 4, 4);
+  return { steps, result: `${result} (${valid ? 'valid' : 'invalid'})` };
+};
@@ -0,0 +1,274 @@
+/** SHA-3 and the SHAKE extendable-output functions (FIPS 202), built on the Keccak sponge. */
+import { toHex } from './bytes';
+import { Encoding, decodeText, encodeBytes } from './encoding';
+import { HashExample, exampleCheck } from './hash';
+import { reportProgress } from './stream';
+import { bytesValue, lanesValue, tableValue } from './trace';
+import type { EngineResult, KeccakOperation, KeccakStep, Step } from './types';
+
+export type Sha3Variant = 'sha3-256' | 'sha3-512' | 'shake128' | 'shake256';
+
+export interface Sha3Parameters {
+  name: string;
+  /** Bytes absorbed or squeezed per permutation; the rest of the 200-byte state is the capacity. */
+  rate: number;
+  /** Domain separation bits and the first padding bit, as one byte: 01 then 1 for SHA-3, 1111 then 1 for SHAKE. */
+  suffix: number;
+  outputBits: number;
+  /** SHAKE output can be any length; SHA-3 output length is fixed. */
+  extendable: boolean;
+  examples: HashExample[];
+}
+
+export const SHA3_VARIANTS: Record<Sha3Variant, Sha3Parameters> = {
+  'sha3-256': {
+    name: 'SHA3-256',
+    rate: 136,
+    suffix: 0x06,
+    outputBits: 256,
+    extendable: false,
+    examples: [{ message: 'abc', digest: '3a985da74fe225b2045c172d6bd390bd855f086e3e9d525b46bfe24511431532', source: 'NIST example' }],
+  },
+  'sha3-512': {
+    name: 'SHA3-512',
+    rate: 72,
+    suffix: 0x06,
+    outputBits: 512,
+    extendable: false,
+    examples: [{
+      message: 'abc',
+      digest: 'b751850b1a57168a5693cd924b6b096e08f621827444f70d884f5d0240d2712e10e116e9192af3c91a7ec57647e3934057340b4cf408d5a56592f8274eec53f0',
+      source: 'NIST example',
+    }],
+  },
+  shake128: { name: 'SHAKE128', rate: 168, suffix: 0x1f, outputBits: 256, extendable: true, examples: [] },
+  shake256: { name: 'SHAKE256', rate: 136, suffix: 0x1f, outputBits: 512, extendable: true, examples: [] },
+};
+
+const MASK = (1n << 64n) - 1n;
+
+const rotl64 = (lane: bigint, n: number): bigint => (n === 0 ? lane : ((lane << BigInt(n)) | (lane >> BigInt(64 - n))) & MASK);
+
+/** ρ rotation offsets indexed x + 5y, from walking (x, y) → (y, 2x + 3y) and adding (t + 1)(t + 2)/2 (FIPS 202 Algorithm 2). */
+const RHO_OFFSETS = (() => {
+  const offsets = new Array<number>(25).fill(0);
+  let [x, y] = [1, 0];
+  for (let t = 0; t < 24; t++) {
+    offsets[x + 5 * y] = (((t + 1) * (t + 2)) / 2) % 64;
+    [x, y] = [y, (2 * x + 3 * y) % 5];
+  }
+  return offsets;
+})();
+
+/** One output bit of the LFSR x⁸ + x⁶ + x⁵ + x⁴ + 1 (FIPS 202 Algorithm 5). */
+const rc = (t: number): bigint => {
+  let r = 1;
+  for (let i = 0; i < t % 255; i++) {
+    r <<= 1;
+    if (r & 0x100) r ^= 0x171;
+  }
+  return BigInt(r & 1);
+};
+
+/** ι round constants: bit 2^j − 1 of RC for round i is rc(j + 7i). */
+const ROUND_CONSTANTS = Array.from({ length: 24 }, (_, i) =>
+  Array.from({ length: 7 }, (_, j) => rc(j + 7 * i) << BigInt(2 ** j - 1)).reduce((a, b) => a | b, 0n)
+);
+
+const hex64 = (lane: bigint): string => lane.toString(16).padStart(16, '0');
+
+const laneRows = (state: bigint[]): string[][] =>
+  Array.from({ length: 5 }, (_, y) => Array.from({ length: 5 }, (_, x) => hex64(state[x + 5 * y])));
+
+const changedLanes = (before: bigint[], after: bigint[]): number[] =>
+  after.flatMap((lane, i) => (lane !== before[i] ? [i] : []));
+
+const RHO_TABLE = Array.from({ length: 5 }, (_, y) => [`y = ${y}`, ...Array.from({ length: 5 }, (_, x) => RHO_OFFSETS[x + 5 * y])]);
+
+type Push = (operation: KeccakOperation, step: Omit<KeccakStep, 'kind' | 'operation'>) => void;
+
+/** Keccak-f[1600]: 24 rounds of θ, ρ, π, χ and ι over the 25 lanes, traced step by step when `push` is given. */
+const keccakF = (state: bigint[], rateLanes: number, push?: Push): bigint[] => {
+  let a = state;
+  const grid = (label: string, before: bigint[], after: bigint[]) => lanesValue(label, laneRows(after), changedLanes(before, after), rateLanes);
+
+  for (let round = 0; round < 24; round++) {
+    const c = Array.from({ length: 5 }, (_, x) => a[x] ^ a[x + 5] ^ a[x + 10] ^ a[x + 15] ^ a[x + 20]);
+    const d = Array.from({ length: 5 }, (_, x) => c[(x + 4) % 5] ^ rotl64(c[(x + 1) % 5], 1));
+    const theta = a.map((lane, i) => lane ^ d[i % 5]);
+    push?.('theta', {
+      round,
+      title: `Round ${round} · θ (Theta)`,
+      description: 'Each column parity C[x] is the XOR of its five lanes. Every lane is XORed with D[x] = C[x−1] ⊕ ROTL1(C[x+1]), so each bit now depends on eleven bits of the previous state.',
+      values: [
+        grid('State after θ', a, theta),
+        tableValue('Column parities', ['x', 'C[x]', 'D[x]'], c.map((parity, x) => [x, hex64(parity), hex64(d[x])])),
+      ],
+    });
+
+    const rho = theta.map((lane, i) => rotl64(lane, RHO_OFFSETS[i]));
+    push?.('rho', {
+      round,
+      title: `Round ${round} · ρ (Rho)`,
+      description: 'Each lane is rotated by its own fixed offset, spreading bits along the 64-bit lanes. Lane (0, 0) is not rotated.',
+      values: [grid('State after ρ', theta, rho), tableValue('Rotation offsets', ['', ...[0, 1, 2, 3, 4].map((x) => `x = ${x}`)], RHO_TABLE)],
+    });
+
+    const pi = rho.map((_, i) => {
+      const [x, y] = [i % 5, Math.floor(i / 5)];
+      return rho[((x + 3 * y) % 5) + 5 * x];
+    });
+    push?.('pi', {
+      round,
+      title: `Round ${round} · π (Pi)`,
+      description: 'The lanes trade places: the lane at (x, y) moves to (y, 2x + 3y). Only lane (0, 0) stays put.',
+      values: [grid('State after π', rho, pi)],
+    });
+
+    const chi = pi.map((lane, i) => {
+      const [x, y] = [i % 5, Math.floor(i / 5)];
+      return lane ^ (~pi[((x + 1) % 5) + 5 * y] & MASK & pi[((x + 2) % 5) + 5 * y]);
+    });
+    push?.('chi', {
+      round,
+      title: `Round ${round} · χ (Chi)`,
+      description: 'The only non-linear step: along each row, a lane is XORed with (¬ next lane) ∧ (lane after that). Without it the whole permutation would be linear and easy to invert.',
+      values: [grid('State after χ', pi, chi)],
+    });
+
+    const iota = [...chi];
+    iota[0] ^= ROUND_CONSTANTS[round];
+    push?.('iota', {
+      round,
+      title: `Round ${round} · ι (Iota)`,
+      description: 'A round constant from a small LFSR is XORed into lane (0, 0), so no two rounds are alike and the state is not symmetric.',
+      values: [grid('State after ι', chi, iota), tableValue('Round constant', ['Round', 'RC'], [[round, hex64(ROUND_CONSTANTS[round])]])],
+    });
+    a = iota;
+  }
+  return a;
+};
+
+/** XORs bytes into the start of the state, little-endian within each lane. */
+const absorbBytes = (state: bigint[], block: Uint8Array): bigint[] => {
+  const next = [...state];
+  block.forEach((byte, i) => {
+    next[i >> 3] ^= BigInt(byte) << BigInt(8 * (i & 7));
+  });
+  return next;
+};
+
+const squeezeBytes = (state: bigint[], length: number): Uint8Array =>
+  Uint8Array.from({ length }, (_, i) => Number((state[i >> 3] >> BigInt(8 * (i & 7))) & 0xffn));
+
+/**
+ * Runs the sponge: pads the message to whole rate blocks, absorbs each into
+ * the state with a permutation after it, then squeezes output a rate at a
+ * time. Each permutation is its own group, with one subgroup per round.
+ */
+export const keccakSponge = (message: Uint8Array, { rate, suffix }: Sha3Parameters, outputBytes: number, steps?: Step[]): Uint8Array => {
+  const rateLanes = rate / 8;
+  const blockCount = Math.floor(message.length / rate) + 1;
+  const squeezeCount = Math.ceil(outputBytes / rate);
+  const total = blockCount + squeezeCount - 1;
+  let permutations = 0;
+
+  const pushIn = (group: string[]): Push | undefined =>
+    steps && ((operation, step) => steps.push({
+      kind: 'keccak',
+      operation,
+      ...step,
+      group: [...group, ...(step.round !== undefined ? [`Round ${step.round}`] : [])],
+    }));
+  const permute = (state: bigint[], group: string) => {
+    const result = keccakF(state, rateLanes, pushIn([group]));
+    if (steps) reportProgress(steps, ++permutations, total);
+    return result;
+  };
+
+  let state = new Array<bigint>(25).fill(0n);
+  const padded = new Uint8Array(blockCount * rate);
+  padded.set(message);
+  padded[message.length] ^= suffix;
+  padded[padded.length - 1] ^= 0x80;
+
+  steps?.push({
+    kind: 'keccak',
+    operation: 'init',
+    title: 'Empty State',
+    description: `The state is 1600 bits arranged as 25 lanes of 64 bits. The first ${rate * 8} bits (${rateLanes} lanes) are the rate, which input and output pass through; the remaining ${1600 - rate * 8}-bit capacity is never touched directly and sets the security level.`,
+    values: [lanesValue('State', laneRows(state), [], rateLanes)],
+  });
+  steps?.push({
+    kind: 'keccak',
+    operation: 'pad',
+    title: 'Padding',
+    description: `The domain bits and pad10*1 are added: byte ${toHex([suffix])} after the message and 0x80 in the last byte of the block, so the ${message.length}-byte message fills ${blockCount} block${blockCount > 1 ? 's' : ''} of ${rate} bytes. No length field is needed.`,
+    values: [bytesValue('Padded message', padded, Array.from({ length: padded.length - message.length }, (_, i) => message.length + i))],
+  });
+
+  for (let block = 1; block <= blockCount; block++) {
+    const group = `Absorb block ${block}`;
+    const before = state;
+    state = absorbBytes(state, padded.subarray((block - 1) * rate, block * rate));
+    pushIn([group])?.('absorb', {
+      title: `Absorb Block ${block}`,
+      description: 'The block is XORed into the rate lanes, eight bytes per lane in little-endian order, and the whole state is then permuted.',
+      values: [lanesValue('State after XOR', laneRows(state), changedLanes(before, state), rateLanes)],
+    });
+    state = permute(state, group);
+  }
+
+  const output = new Uint8Array(squeezeCount * rate);
+  for (let squeeze = 1; squeeze <= squeezeCount; squeeze++) {
+    if (squeeze > 1) state = permute(state, `Squeeze block ${squeeze}`);
+    output.set(squeezeBytes(state, rate), (squeeze - 1) * rate);
+    const taken = Math.min(rate, outputBytes - (squeeze - 1) * rate);
+    pushIn(squeezeCount > 1 ? [`Squeeze block ${squeeze}`] : [])?.('squeeze', {
+      title: squeezeCount > 1 ? `Squeeze Block ${squeeze}` : 'Squeeze',
+      description: `Output is read from the highlighted rate lanes, little-endian within each lane. ${taken} byte${taken > 1 ? 's are' : ' is'} needed from this block${
+        squeeze < squeezeCount ? '; the state is permuted again for more' : ''
+      }.`,
+      values: [
+        lanesValue('State', laneRows(state), Array.from({ length: Math.ceil(taken / 8) }, (_, i) => i), rateLanes),
+        bytesValue('Output bytes', output.subarray((squeeze - 1) * rate, (squeeze - 1) * rate + taken)),
+      ],
+    });
+  }
+  return output.slice(0, outputBytes);
+};
+
+export interface Sha3Options {
+  variant?: Sha3Variant;
+  /** Output length for SHAKE, in bits; SHA-3 ignores it. */
+  outputBits?: number;
+  inputEncoding?: Encoding;
+  outputEncoding?: Encoding;
+}
+
+/** Hashes the input with SHA-3 or SHAKE, tracing the absorb phase, every round of every permutation and the squeeze phase. */
+export const runSha3 = (
+  input: string,
+  { variant = 'sha3-256', outputBits, inputEncoding = 'utf8', outputEncoding = 'hex' }: Sha3Options = {},
+  steps: Step[] = []
+): EngineResult => {
+  const parameters = SHA3_VARIANTS[variant];
+  const bits = parameters.extendable ? outputBits ?? parameters.outputBits : parameters.outputBits;
+  if (bits <= 0 || bits % 8 !== 0) {
+    throw new Error(`Output length must be a positive multiple of 8 bits, got ${bits}`);
+  }
+  const message = decodeText(input, inputEncoding);
+  const digest = keccakSponge(message, parameters, bits / 8, steps);
+  const result = encodeBytes(digest, outputEncoding);
+  steps.push({
+    kind: 'keccak',
+    operation: 'digest',
+    title: 'Digest',
+    description: parameters.extendable
+      ? `${parameters.name} can squeeze as much output as asked for; here ${bits} bits. A longer request begins with the same bytes.`
+      : `The first ${bits} bits squeezed out are the ${parameters.name} digest. The capacity stays hidden, which is why SHA-3 is not open to length-extension attacks.`,
+    values: [bytesValue('Digest', digest), ...exampleCheck(parameters.examples, message, digest)],
+    result,
+  });
+  return { steps, result };
+};
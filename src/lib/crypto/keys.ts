@@ -0,0 +1,72 @@
+import { fromHex, toHex, utf8ToBytes } from './bytes';
+
+export type KeyedAlgorithm = 'aes' | 'des' | 'tdes' | 'hmac';
+
+/** Valid key lengths in bytes for each keyed algorithm, or the lengths offered for generation when it has a key range. */
+export const KEY_LENGTHS: Record<KeyedAlgorithm, number[]> = {
+  aes: [16, 24, 32],
+  des: [8],
+  // Three, two or one DES keys: keying options 1, 2 and 3.
+  tdes: [24, 16, 8],
+  // The digest size, the block size, and a key long enough to be hashed first.
+  hmac: [32, 64, 80],
+};
+
+/** Algorithms that take a key of any length between these byte counts. */
+const KEY_RANGES: Partial<Record<KeyedAlgorithm, [number, number]>> = {
+  hmac: [1, 256],
+};
+
+export const PBKDF2_ITERATIONS = 100000;
+
+/**
+ * Describes a key length by the bits that key the cipher. DES uses the low
+ * bit of every key byte as parity, so its 64-bit keys carry 56 key bits.
+ */
+export const describeKeySize = (algorithm: KeyedAlgorithm, length: number): string =>
+  algorithm === 'des' || algorithm === 'tdes' ? `${length * 7}-bit (${length * 8} with parity)` : `${length * 8}-bit`;
+
+/** Returns an error message for an invalid hex key, or null when it can be used. */
+export const validateKey = (algorithm: KeyedAlgorithm, hex: string): string | null => {
+  let key: Uint8Array;
+  try {
+    key = fromHex(hex);
+  } catch {
+    return 'Key must be written as hexadecimal digits';
+  }
+  const range = KEY_RANGES[algorithm];
+  if (range) {
+    const [min, max] = range;
+    return key.length >= min && key.length <= max
+      ? null
+      : `${algorithm.toUpperCase()} keys must be ${min * 2} to ${max * 2} hex digits, got ${key.length * 2}`;
+  }
+  const lengths = KEY_LENGTHS[algorithm];
+  if (!lengths.includes(key.length)) {
+    const expected = lengths.map((length) => `${length * 2}`).join(', ').replace(/, (\d+)$/, ' or $1');
+    return `${algorithm.toUpperCase()} keys must be ${expected} hex digits, got ${key.length * 2}`;
+  }
+  return null;
+};
+
+export const generateRandomHex = (length: number): string => {
+  const key = new Uint8Array(length);
+  crypto.getRandomValues(key);
+  return toHex(key);
+};
+
+/** Derives a key of the given byte length from a passphrase with PBKDF2-HMAC-SHA256. */
+export const deriveKeyFromPassphrase = async (
+  passphrase: string,
+  salt: string,
+  length: number,
+  iterations = PBKDF2_ITERATIONS
+): Promise<string> => {
+  const baseKey = await crypto.subtle.importKey('raw', utf8ToBytes(passphrase), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', salt: utf8ToBytes(salt), iterations, hash: 'SHA-256' },
+    baseKey,
+    length * 8
+  );
+  return toHex(new Uint8Array(bits));
+};
@@ -0,0 +1,82 @@
+/** The Luhn mod 10 check digit (ISO/IEC 7812) used on payment card numbers. */
+import { reportProgress } from './stream';
+import { annotation, tableValue } from './trace';
+import type { ChecksumStep, EngineResult, Step } from './types';
+
+/** The valid number usually used to explain the algorithm: payload 7992739871, check digit 3. */
+export const LUHN_EXAMPLE = '79927398713';
+
+/** Reads a digit string, ignoring the spaces and hyphens card numbers are usually grouped with. */
+export const parseDigits = (text: string): number[] | null => {
+  const compact = text.replace(/[\s-]/g, '');
+  return /^\d+$/.test(compact) ? Array.from(compact, Number) : null;
+};
+
+/** The value a digit contributes: doubled digits over 9 have their two decimal digits added, which is the same as subtracting 9. */
+const contribution = (digit: number, doubled: boolean): number => (doubled ? (digit * 2 > 9 ? digit * 2 - 9 : digit * 2) : digit);
+
+/** Sums a full number, check digit included, doubling every second digit counted from the right. */
+export const luhnSum = (digits: number[]): number =>
+  digits.reduceRight((sum, digit, index) => sum + contribution(digit, (digits.length - 1 - index) % 2 === 1), 0);
+
+/** The digit that, appended to the payload, makes its sum a multiple of 10. */
+export const luhnCheckDigit = (payload: number[]): number => (10 - (luhnSum([...payload, 0]) % 10)) % 10;
+
+/**
+ * Computes the check digit for a number, or verifies a number whose last
+ * digit is its check digit, tracing each digit's contribution.
+ */
+export const runLuhn = (input: string, direction: 'generate' | 'verify', steps: Step[] = []): EngineResult => {
+  const digits = parseDigits(input);
+  if (!digits) throw new Error('Luhn works on decimal digits only');
+  const push = (operation: ChecksumStep['operation'], step: Omit<ChecksumStep, 'kind' | 'operation'>) => {
+    steps.push({ kind: 'checksum', operation, ...step });
+  };
+  // When generating, the check digit still has to be appended, so the doubling starts with the last payload digit.
+  const offset = direction === 'generate' ? 1 : 0;
+
+  let sum = 0;
+  for (let index = digits.length - 1, position = offset; index >= 0; index--, position++) {
+    const digit = digits[index];
+    const doubled = position % 2 === 1;
+    const value = contribution(digit, doubled);
+    sum += value;
+    push('add', {
+      title: `Digit ${index + 1}: ${digit}${doubled ? ' (doubled)' : ''}`,
+      description: doubled
+        ? `Every second digit from the right is doubled. ${digit} × 2 = ${digit * 2}${digit * 2 > 9 ? `, which has two digits, so they are added: ${value}` : ''}. A swap of neighbouring digits moves one of them in or out of the doubled positions.`
+        : `Digits in the other positions count as they are. ${direction === 'verify' && index === digits.length - 1 ? 'This is the check digit itself.' : ''}`.trim(),
+      values: [
+        tableValue('Running sum', ['Position from right', 'Digit', 'Contribution', 'Sum'], [[String(position + 1 - offset), String(digit), String(value), String(sum)]]),
+      ],
+      result: String(sum),
+    });
+    reportProgress(steps, digits.length - index, digits.length);
+  }
+
+  if (direction === 'generate') {
+    const check = (10 - (sum % 10)) % 10;
+    push('checkDigit', {
+      title: 'Check Digit',
+      description: `The check digit brings the sum up to a multiple of 10: (10 − ${sum} mod 10) mod 10 = ${check}.`,
+      values: [
+        tableValue('Check digit', ['Sum', 'Check digit', 'Full number'], [[String(sum), String(check), `${digits.join('')}${check}`]]),
+      ],
+      result: String(check),
+    });
+    return { steps, result: String(check) };
+  }
+
+  const valid = sum % 10 === 0;
+  push('compare', {
+    title: 'Check the Sum',
+    description: `A number with a correct check digit has a digit sum that is a multiple of 10. Here ${sum} mod 10 = ${sum % 10}.`,
+    values: [
+      valid
+        ? annotation('The sum is a multiple of 10: the number is valid.', 'success')
+        : annotation('The sum is not a multiple of 10: a digit was mistyped or two digits were swapped.', 'warning'),
+    ],
+    result: valid ? 'valid' : 'invalid',
+  });
+  return { steps, result: `${digits.join('')} (${valid ? 'valid' : 'invalid'})` };
+};
@@ -0,0 +1,97 @@
+/** MD5 (RFC 1321). */
+import type { Encoding } from './encoding';
+import { HashEmit, HashExample, MerkleDamgardHash, hex32, merkleDamgard, rotl, runHash } from './hash';
+import { tableValue } from './trace';
+import type { EngineResult, Step } from './types';
+
+/** Ti = floor(2³² · |sin(i + 1)|), the additive constant of each of the 64 operations. */
+const T = Uint32Array.from({ length: 64 }, (_, i) => Math.floor(Math.abs(Math.sin(i + 1)) * 0x100000000));
+
+const SHIFTS = [
+  [7, 12, 17, 22],
+  [5, 9, 14, 20],
+  [4, 11, 16, 23],
+  [6, 10, 15, 21],
+];
+
+/** The boolean function of each round and the order in which it reads the block's words. */
+const ROUNDS: { name: string; formula: string; f: (b: number, c: number, d: number) => number; word: (i: number) => number }[] = [
+  { name: 'F', formula: '(B ∧ C) ∨ (¬B ∧ D)', f: (b, c, d) => (b & c) | (~b & d), word: (i) => i },
+  { name: 'G', formula: '(B ∧ D) ∨ (C ∧ ¬D)', f: (b, c, d) => (b & d) | (c & ~d), word: (i) => (5 * i + 1) % 16 },
+  { name: 'H', formula: 'B ⊕ C ⊕ D', f: (b, c, d) => b ^ c ^ d, word: (i) => (3 * i + 5) % 16 },
+  { name: 'I', formula: 'C ⊕ (B ∨ ¬D)', f: (b, c, d) => c ^ (b | ~d), word: (i) => (7 * i) % 16 },
+];
+
+const REGISTERS = ['A', 'B', 'C', 'D'];
+
+/** Test vectors from the appendix of RFC 1321, used to confirm the trace. */
+export const RFC1321_EXAMPLES: HashExample[] = [
+  { message: '', digest: 'd41d8cd98f00b204e9800998ecf8427e', source: 'RFC 1321 test suite' },
+  { message: 'abc', digest: '900150983cd24fb0d6963f7d28e17f72', source: 'RFC 1321 test suite' },
+  { message: 'message digest', digest: 'f96b697d7cb7938d525a2f31aaf161d0', source: 'RFC 1321 test suite' },
+];
+
+const operation = (words: Uint32Array, t: number, state: number[], emit?: HashEmit): number[] => {
+  const [a, b, c, d] = state;
+  const round = ROUNDS[t >> 4];
+  const g = round.word(t % 16);
+  const s = SHIFTS[t >> 4][t % 4];
+  const f = round.f(b, c, d) >>> 0;
+  const sum = (a + f + T[t] + words[g]) >>> 0;
+  const next = [d, (b + rotl(sum, s)) >>> 0, b, c];
+  emit?.('round', {
+    round: (t >> 4) + 1,
+    group: [`Round ${(t >> 4) + 1}: ${round.name}`],
+    title: `Round ${(t >> 4) + 1} · Operation ${(t % 16) + 1}`,
+    description: `Operation ${t + 1} of 64 uses the round ${round.name} function. Only B gets a new value, B + ((A + ${round.name}(B, C, D) + M[${g}] + T${t + 1}) <<< ${s}); the registers then rotate (A ← D, C ← B, D ← C).`,
+    values: [
+      tableValue('Registers', ['', ...REGISTERS], [
+        ['Before', ...state.map(hex32)],
+        ['After', ...next.map(hex32)],
+      ]),
+      tableValue('Operation', ['Quantity', 'Formula', 'Value'], [
+        [`${round.name}(B, C, D)`, round.formula, hex32(f)],
+        [`M[${g}]`, 'block word', hex32(words[g])],
+        [`T${t + 1}`, `⌊2³² · |sin(${t + 1})|⌋`, hex32(T[t])],
+        ['Sum', `A + ${round.name} + M[${g}] + T${t + 1}`, hex32(sum)],
+        ['New B', `B + (Sum <<< ${s})`, hex32(next[1])],
+      ]),
+    ],
+  });
+  return next;
+};
+
+export const MD5: MerkleDamgardHash = {
+  name: 'MD5',
+  littleEndian: true,
+  initial: [0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476],
+  registers: REGISTERS,
+  initialDescription: 'Four 32-bit registers start from the counting bytes 01 23 45 … 10, stored little-endian. MD5 reads every word of the message little-endian too.',
+  compress: (words, state, emit) => {
+    emit?.('schedule', {
+      title: 'Message Word Order',
+      description: 'MD5 has no message expansion: each round reads the sixteen little-endian block words M[0]–M[15] once, in its own order, and each operation rotates left by its own shift.',
+      values: [
+        tableValue('Block words', ['i', 'M[i]'], Array.from(words, (word, i) => [i, hex32(word)])),
+        tableValue('Rounds', ['Round', 'Function', 'Word order', 'Shifts'], ROUNDS.map((round, r) => [
+          r + 1,
+          `${round.name} = ${round.formula}`,
+          Array.from({ length: 16 }, (_, i) => round.word(i)).join(' '),
+          SHIFTS[r].join(', '),
+        ])),
+      ],
+    });
+    let working = state;
+    for (let t = 0; t < 64; t++) working = operation(words, t, working, emit);
+    return working;
+  },
+};
+
+export const md5 = (message: Uint8Array, steps?: Step[]): Uint8Array => merkleDamgard(MD5, message, steps);
+
+/** Hashes the input with a full MD5 trace, ending with the digest and a check against the RFC 1321 test suite. */
+export const runMd5 = (
+  input: string,
+  options: { inputEncoding?: Encoding; outputEncoding?: Encoding } = {},
+  steps: Step[] = []
+): EngineResult => runHash(MD5, input, options, steps, RFC1321_EXAMPLES);
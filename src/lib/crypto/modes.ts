@@ -0,0 +1,357 @@
+import { toHex, xorBytes } from './bytes';
+import { EncodingOptions, decodeText, encodeBytes, resolveEncodings } from './encoding';
+import { gcmDecrypt, gcmEncrypt } from './gcm';
+import { PaddingScheme, pad, unpad } from './padding';
+import { StepStream, reportProgress } from './stream';
+import { annotation, bytesValue } from './trace';
+import type { EngineResult, ModeStep, Step } from './types';
+
+export type CipherMode = 'ecb' | 'cbc' | 'cfb' | 'ofb' | 'ctr' | 'gcm';
+
+interface ModeInfo {
+  name: string;
+  description: string;
+  needsIv: boolean;
+  /** Stream modes only ever run the forward cipher and need no padding. */
+  stream: boolean;
+  /** IV length in bytes when it differs from the cipher's block size. */
+  ivLength?: number;
+  /** Restricts the mode to ciphers with this block size. */
+  blockSize?: number;
+  authenticated?: boolean;
+}
+
+export const CIPHER_MODES: Record<CipherMode, ModeInfo> = {
+  ecb: {
+    name: 'ECB (Electronic Codebook)',
+    description: 'Each block is encrypted on its own, so equal plaintext blocks give equal ciphertext blocks.',
+    needsIv: false,
+    stream: false,
+  },
+  cbc: {
+    name: 'CBC (Cipher Block Chaining)',
+    description: 'Each plaintext block is XORed with the previous ciphertext block (the IV for the first) before encryption.',
+    needsIv: true,
+    stream: false,
+  },
+  cfb: {
+    name: 'CFB (Cipher Feedback)',
+    description: 'The previous ciphertext block is encrypted and XORed with the plaintext, turning the block cipher into a self-synchronising stream cipher.',
+    needsIv: true,
+    stream: true,
+  },
+  ofb: {
+    name: 'OFB (Output Feedback)',
+    description: 'The IV is encrypted repeatedly to produce a keystream that is XORed with the plaintext.',
+    needsIv: true,
+    stream: true,
+  },
+  ctr: {
+    name: 'CTR (Counter)',
+    description: 'A counter block is encrypted for every block and the result XORed with the plaintext; the counter is incremented each time.',
+    needsIv: true,
+    stream: true,
+  },
+  gcm: {
+    name: 'GCM (Galois/Counter Mode)',
+    description: 'CTR encryption plus a GHASH authentication tag over the associated data and ciphertext, so any tampering is detected on decryption.',
+    needsIv: true,
+    stream: true,
+    ivLength: 12,
+    blockSize: 16,
+    authenticated: true,
+  },
+};
+
+export const modesForBlockSize = (blockSize: number): CipherMode[] =>
+  (Object.keys(CIPHER_MODES) as CipherMode[]).filter((mode) => (CIPHER_MODES[mode].blockSize ?? blockSize) === blockSize);
+
+export const ivLengthFor = (mode: CipherMode, blockSize: number): number => CIPHER_MODES[mode].ivLength ?? blockSize;
+
+export interface BlockCipher {
+  blockSize: number;
+  encryptBlock: (block: Uint8Array, steps: Step[], label: string) => Uint8Array;
+  decryptBlock: (block: Uint8Array, steps: Step[], label: string) => Uint8Array;
+}
+
+export interface ModeOptions {
+  mode?: CipherMode;
+  iv?: Uint8Array;
+  /** Additional authenticated data, only used by authenticated modes. */
+  aad?: Uint8Array;
+  /** Padding applied before ECB and CBC encryption and removed after decryption. */
+  padding?: PaddingScheme;
+}
+
+export interface BlockCipherOptions extends ModeOptions, EncodingOptions {
+  key?: Uint8Array;
+}
+
+/** Returns an error message for an invalid hex IV, or null when it has the expected byte length. */
+export const validateIv = (iv: string, length: number): string | null => {
+  const clean = iv.replace(/\s+/g, '');
+  if (!/^[0-9a-f]*$/i.test(clean)) {
+    return 'IV must be written as hexadecimal digits';
+  }
+  if (clean.length !== length * 2) {
+    return `IV must be ${length * 2} hex digits (${length} bytes), got ${clean.length}`;
+  }
+  return null;
+};
+
+/** Treats the whole block as a big-endian counter and adds one to it. */
+export const incrementCounter = (counter: Uint8Array): Uint8Array => {
+  const next = Uint8Array.from(counter);
+  for (let i = next.length - 1; i >= 0; i--) {
+    next[i] = (next[i] + 1) & 0xff;
+    if (next[i] !== 0) break;
+  }
+  return next;
+};
+
+const splitBlocks = (data: Uint8Array, blockSize: number): Uint8Array[] => {
+  const blocks: Uint8Array[] = [];
+  for (let offset = 0; offset < data.length; offset += blockSize) {
+    blocks.push(data.slice(offset, offset + blockSize));
+  }
+  return blocks;
+};
+
+/**
+ * Applies the chaining rule of the mode around the cipher, adding a step for
+ * every XOR, feedback and counter update alongside the block cipher's own trace.
+ */
+const applyMode = (
+  cipher: BlockCipher,
+  mode: CipherMode,
+  direction: 'encrypt' | 'decrypt',
+  data: Uint8Array,
+  iv: Uint8Array,
+  steps: Step[]
+): Uint8Array => {
+  const blocks = splitBlocks(data, cipher.blockSize);
+  const output: Uint8Array[] = [];
+  const modeName = mode.toUpperCase();
+  let feedback = iv;
+
+  // Each mode returns as soon as its block is done; progress is reported once per block below.
+  const processBlock = (block: Uint8Array, index: number) => {
+    const label = blocks.length > 1 ? `Block ${index + 1} · ` : '';
+    const previous = index === 0 ? 'the IV' : `ciphertext block ${index}`;
+    const push = (operation: ModeStep['operation'], title: string, description: string, bytes: Uint8Array) => {
+      steps.push({
+        kind: 'mode',
+        operation,
+        title: `${label}${modeName}: ${title}`,
+        description,
+        values: [bytesValue('Block', bytes)],
+      });
+    };
+
+    if (mode === 'ecb') {
+      push('independent', 'Independent Block', CIPHER_MODES.ecb.description, block);
+      output.push(
+        direction === 'encrypt' ? cipher.encryptBlock(block, steps, label) : cipher.decryptBlock(block, steps, label)
+      );
+      return;
+    }
+
+    if (mode === 'cbc') {
+      if (direction === 'encrypt') {
+        const mixed = xorBytes(block, feedback);
+        push('chain', 'XOR with Previous', `The plaintext block is XORed with ${previous} (${toHex(feedback)}) before encryption.`, mixed);
+        feedback = cipher.encryptBlock(mixed, steps, label);
+        output.push(feedback);
+      } else {
+        const decrypted = cipher.decryptBlock(block, steps, label);
+        const plain = xorBytes(decrypted, feedback);
+        push('chain', 'XOR with Previous', `The decrypted block is XORed with ${previous} (${toHex(feedback)}) to recover the plaintext.`, plain);
+        feedback = block;
+        output.push(plain);
+      }
+      return;
+    }
+
+    // CFB, OFB and CTR only use the forward cipher to produce a keystream block.
+    const source =
+      mode === 'ctr' ? 'the counter block' : index === 0 ? 'the IV' : mode === 'cfb' ? previous : 'the previous keystream block';
+    push(
+      'keystreamInput',
+      'Keystream Input',
+      `The forward cipher encrypts ${source}${direction === 'decrypt' ? ', even though we are decrypting' : ''}.`,
+      feedback
+    );
+    const keystream = cipher.encryptBlock(feedback, steps, label).slice(0, block.length);
+    const out = xorBytes(block, keystream);
+    push(
+      'keystreamXor',
+      'XOR with Keystream',
+      `The ${direction === 'encrypt' ? 'plaintext' : 'ciphertext'} block is XORed with the keystream ${toHex(keystream)}.`,
+      out
+    );
+    output.push(out);
+
+    if (mode === 'cfb') {
+      feedback = direction === 'encrypt' ? out : block;
+    } else if (mode === 'ofb') {
+      feedback = keystream;
+    } else {
+      feedback = incrementCounter(feedback);
+      if (index < blocks.length - 1) {
+        push('counter', 'Counter Increment', 'The counter block is incremented by one for the next block.', feedback);
+      }
+    }
+  };
+
+  blocks.forEach((block, index) => {
+    processBlock(block, index);
+    reportProgress(steps, index + 1, blocks.length);
+  });
+
+  return Uint8Array.from(output.flatMap((block) => Array.from(block)));
+};
+
+const patternStep = (plaintext: Uint8Array, ciphertext: Uint8Array, blockSize: number, mode: CipherMode): Step | null => {
+  const plainBlocks = splitBlocks(plaintext, blockSize).map((block) => toHex(block));
+  const cipherBlocks = splitBlocks(ciphertext, blockSize).map((block) => toHex(block));
+  const repeats = plainBlocks
+    .map((block, index) => ({ index, first: plainBlocks.indexOf(block) }))
+    .filter(({ index, first }) => first !== index && plainBlocks[index].length === blockSize * 2);
+  if (repeats.length === 0) return null;
+
+  const leaked = repeats.filter(({ index, first }) => cipherBlocks[index] === cipherBlocks[first]);
+  const pairs = repeats.map(({ index, first }) => `${first + 1} and ${index + 1}`).join(', ');
+  return {
+    kind: 'mode',
+    operation: 'patternCheck',
+    title: 'Pattern Check',
+    description: `Plaintext blocks ${pairs} are identical.`,
+    values: [
+      leaked.length > 0
+        ? annotation(`Their ciphertext blocks are identical too: ${mode.toUpperCase()} leaks the repetition.`, 'warning')
+        : annotation(
+          'Their ciphertext blocks differ, because each one is combined with a different chaining value or keystream block.',
+          'success'
+        ),
+    ],
+  };
+};
+
+/**
+ * Runs a block cipher over the whole input in the given mode. By default
+ * encryption takes UTF-8 text and returns hex ciphertext (with the tag
+ * appended in GCM), and decryption does the reverse.
+ */
+export const runBlockCipher = (
+  cipher: BlockCipher,
+  input: string,
+  direction: 'encrypt' | 'decrypt',
+  { mode = 'ecb', iv, aad = new Uint8Array(0), padding = 'pkcs7', ...encodings }: ModeOptions & EncodingOptions,
+  steps: Step[]
+): EngineResult => {
+  const { inputEncoding, outputEncoding } = resolveEncodings(direction, encodings);
+  const info = CIPHER_MODES[mode];
+  if (info.blockSize && info.blockSize !== cipher.blockSize) {
+    throw new Error(`${mode.toUpperCase()} mode needs a ${info.blockSize * 8}-bit block cipher`);
+  }
+  const ivLength = ivLengthFor(mode, cipher.blockSize);
+  const chainingValue = info.needsIv ? iv : new Uint8Array(cipher.blockSize);
+  if (!chainingValue || chainingValue.length !== ivLength) {
+    throw new Error(`${mode.toUpperCase()} mode needs an IV of ${ivLength} bytes`);
+  }
+
+  const raw = decodeText(input, inputEncoding);
+  if (direction === 'decrypt' && !info.stream && raw.length % cipher.blockSize !== 0) {
+    throw new Error(`Ciphertext must be a whole number of ${cipher.blockSize}-byte blocks in ${mode.toUpperCase()} mode`);
+  }
+
+  steps.push({
+    kind: 'mode',
+    operation: 'setup',
+    title: `Mode: ${info.name}`,
+    description: `${info.description}${info.needsIv ? ` IV = ${toHex(chainingValue)}.` : ''}${
+      info.authenticated ? ` Associated data: ${aad.length} bytes.` : ''
+    }`,
+    values: info.needsIv ? [bytesValue('IV', chainingValue)] : [],
+  });
+
+  if (mode === 'gcm') {
+    return direction === 'encrypt'
+      ? { steps, result: encodeBytes(gcmEncrypt(cipher, chainingValue, raw, aad, steps), outputEncoding) }
+      : { steps, result: encodeBytes(gcmDecrypt(cipher, chainingValue, raw, aad, steps), outputEncoding) };
+  }
+
+  if (direction === 'encrypt') {
+    const data = info.stream ? raw : pad(raw, cipher.blockSize, padding, steps);
+    const output = applyMode(cipher, mode, direction, data, chainingValue, steps);
+    const pattern = patternStep(data, output, cipher.blockSize, mode);
+    if (pattern) steps.push(pattern);
+    return { steps, result: encodeBytes(output, outputEncoding) };
+  }
+
+  const output = applyMode(cipher, mode, direction, raw, chainingValue, steps);
+  const plaintext = info.stream ? output : unpad(output, cipher.blockSize, padding, steps);
+  return { steps, result: encodeBytes(plaintext, outputEncoding) };
+};
+
+export type CipherRunner = (
+  input: string,
+  direction: 'encrypt' | 'decrypt',
+  options: BlockCipherOptions,
+  steps?: Step[]
+) => EngineResult;
+
+/** Collects one phase of a round trip into the combined trace, tagging each step with the phase. */
+const phaseSteps = (phase: 'encrypt' | 'decrypt', steps: Step[]): StepStream =>
+  new StepStream({
+    onSteps: (batch) =>
+      batch.forEach((step) =>
+        steps.push({ ...step, title: `${phase === 'encrypt' ? 'Encrypt' : 'Decrypt'} · ${step.title}`, phase })
+      ),
+    onProgress: (fraction) => reportProgress(steps, (phase === 'encrypt' ? 0 : 1) + fraction, 2),
+  });
+
+/**
+ * Encrypts the input, decrypts the resulting ciphertext with the same options
+ * and checks that the original bytes come back. The ciphertext is the result.
+ */
+export const runRoundTrip = (
+  run: CipherRunner,
+  input: string,
+  options: BlockCipherOptions = {},
+  steps: Step[] = []
+): EngineResult => {
+  const { inputEncoding, outputEncoding } = resolveEncodings('encrypt', options);
+  const encryptSteps = phaseSteps('encrypt', steps);
+  const encryption = run(input, 'encrypt', { ...options, inputEncoding, outputEncoding }, encryptSteps);
+  encryptSteps.flush();
+  const decryptSteps = phaseSteps('decrypt', steps);
+  const decryption = run(
+    encryption.result,
+    'decrypt',
+    { ...options, inputEncoding: outputEncoding, outputEncoding: inputEncoding },
+    decryptSteps
+  );
+  decryptSteps.flush();
+
+  const original = decodeText(input, inputEncoding);
+  const recovered = decodeText(decryption.result, inputEncoding);
+  const matches = original.length === recovered.length && original.every((byte, i) => byte === recovered[i]);
+
+  steps.push({
+    kind: 'roundTrip',
+    matches,
+    title: 'Round Trip Check',
+    description: matches
+      ? `Decrypting the ciphertext recovered all ${original.length} original bytes exactly.`
+      : 'The recovered plaintext differs from the original input.',
+    values: [bytesValue('Original', original), bytesValue('Recovered', recovered)],
+    result: decryption.result,
+  });
+
+  return {
+    steps,
+    result: encryption.result,
+    roundTrip: { ciphertext: encryption.result, recovered: decryption.result, matches },
+  };
+};
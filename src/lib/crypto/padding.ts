@@ -0,0 +1,149 @@
+import { concatBytes, toHex } from './bytes';
+import { PaddingError } from './errors';
+import { bytesValue } from './trace';
+import type { PaddingStep, Step } from './types';
+
+export type PaddingScheme = 'pkcs7' | 'x923' | 'iso7816' | 'zero' | 'none';
+
+export const PADDING_SCHEMES: Record<PaddingScheme, { name: string; description: string }> = {
+  pkcs7: {
+    name: 'PKCS#7',
+    description: 'Appends N bytes that each have the value N, adding a whole block when the data is already aligned.',
+  },
+  x923: {
+    name: 'ANSI X9.23',
+    description: 'Appends N - 1 zero bytes followed by a final byte holding N.',
+  },
+  iso7816: {
+    name: 'ISO/IEC 7816-4',
+    description: 'Appends a single 0x80 byte followed by as many zero bytes as needed.',
+  },
+  zero: {
+    name: 'Zero padding',
+    description: 'Appends zero bytes up to the block boundary; ambiguous if the data itself ends in zeros.',
+  },
+  none: {
+    name: 'No padding',
+    description: 'The data must already be a whole number of blocks.',
+  },
+};
+
+const padLength = (dataLength: number, blockSize: number, scheme: PaddingScheme): number => {
+  const remainder = dataLength % blockSize;
+  if (scheme === 'none') return 0;
+  if (scheme === 'zero') return remainder === 0 ? 0 : blockSize - remainder;
+  return blockSize - remainder;
+};
+
+const lastBlockStep = (
+  operation: PaddingStep['operation'],
+  title: string,
+  description: string,
+  data: Uint8Array,
+  blockSize: number,
+  paddingLength: number
+): PaddingStep => {
+  const start = Math.max(0, data.length - blockSize);
+  const lastBlock = data.slice(start);
+  return {
+    kind: 'padding',
+    operation,
+    title,
+    description,
+    values: [
+      bytesValue(
+        'Final block',
+        lastBlock,
+        Array.from({ length: paddingLength }, (_, i) => lastBlock.length - paddingLength + i)
+      ),
+    ],
+  };
+};
+
+/** Pads data to a whole number of blocks, tracing the padded final block. */
+export const pad = (data: Uint8Array, blockSize: number, scheme: PaddingScheme, steps: Step[]): Uint8Array => {
+  if (scheme === 'none' && data.length % blockSize !== 0) {
+    throw new PaddingError(`Without padding the input must be a multiple of ${blockSize} bytes, got ${data.length}`);
+  }
+  const length = padLength(data.length, blockSize, scheme);
+  const padding = new Uint8Array(length);
+  if (length > 0) {
+    if (scheme === 'pkcs7') padding.fill(length);
+    if (scheme === 'x923') padding[length - 1] = length;
+    if (scheme === 'iso7816') padding[0] = 0x80;
+  }
+  const padded = concatBytes(data, padding);
+  steps.push(
+    lastBlockStep(
+      'pad',
+      'Padding',
+      `${PADDING_SCHEMES[scheme].description} ${
+        length > 0 ? `${length} byte${length === 1 ? '' : 's'} (${toHex(padding, ' ')}) appended to the ${data.length}-byte input.` : 'No bytes were needed.'
+      }`,
+      padded,
+      blockSize,
+      length
+    )
+  );
+  return padded;
+};
+
+const findPaddingLength = (data: Uint8Array, blockSize: number, scheme: PaddingScheme): number => {
+  const last = data[data.length - 1];
+  switch (scheme) {
+    case 'pkcs7':
+    case 'x923': {
+      if (last < 1 || last > blockSize) {
+        throw new PaddingError(`The final byte 0x${toHex([last])} is not a valid ${PADDING_SCHEMES[scheme].name} length for ${blockSize}-byte blocks`);
+      }
+      const filler = data.slice(data.length - last, data.length - 1);
+      const expected = scheme === 'pkcs7' ? last : 0;
+      const bad = filler.findIndex((b) => b !== expected);
+      if (bad !== -1) {
+        throw new PaddingError(
+          `${PADDING_SCHEMES[scheme].name} padding of length ${last} needs every filler byte to be 0x${toHex([expected])}, found 0x${toHex([filler[bad]])}`
+        );
+      }
+      return last;
+    }
+    case 'iso7816': {
+      let index = data.length - 1;
+      while (index >= data.length - blockSize && data[index] === 0) index--;
+      if (index < data.length - blockSize || data[index] !== 0x80) {
+        throw new PaddingError('ISO/IEC 7816-4 padding must be a 0x80 marker followed only by zero bytes in the final block');
+      }
+      return data.length - index;
+    }
+    case 'zero': {
+      let index = data.length;
+      while (index > data.length - blockSize && data[index - 1] === 0) index--;
+      return data.length - index;
+    }
+    default:
+      return 0;
+  }
+};
+
+/**
+ * Validates and strips padding from decrypted data, throwing a PaddingError
+ * that explains which byte is malformed.
+ */
+export const unpad = (data: Uint8Array, blockSize: number, scheme: PaddingScheme, steps: Step[]): Uint8Array => {
+  if (data.length === 0 || data.length % blockSize !== 0) {
+    throw new PaddingError(`Padded data must be a non-empty multiple of ${blockSize} bytes`);
+  }
+  const length = findPaddingLength(data, blockSize, scheme);
+  steps.push(
+    lastBlockStep(
+      'unpad',
+      'Remove Padding',
+      length > 0
+        ? `The final ${length} byte${length === 1 ? ' is' : 's are'} valid ${PADDING_SCHEMES[scheme].name} padding and ${length === 1 ? 'is' : 'are'} removed.`
+        : `${PADDING_SCHEMES[scheme].name}: nothing to remove.`,
+      data,
+      blockSize,
+      length
+    )
+  );
+  return data.slice(0, data.length - length);
+};
@@ -0,0 +1,329 @@
+import {
+  EuclidRow,
+  SquareMultiplyRow,
+  bigIntToBytes,
+  bitLength,
+  bytesToBigInt,
+  gcd,
+  hasSmallFactor,
+  millerRabin,
+  modInverse,
+  modPow,
+  randomBits,
+} from './bigint';
+import { bytesToText, toHex } from './bytes';
+import { Encoding, decodeText } from './encoding';
+import { reportProgress } from './stream';
+import { DETAIL_BITS, abbreviate, annotation, bytesValue, numberValue, squareMultiplyValue, tableValue } from './trace';
+import type { EngineResult, RsaOperation, RsaStep, Step } from './types';
+
+export type RsaKeySize = 'toy' | '64' | '512' | '1024' | '2048';
+
+export const RSA_KEY_SIZES: Record<RsaKeySize, { name: string; modulusBits: number }> = {
+  toy: { name: 'Toy (16-bit modulus)', modulusBits: 16 },
+  '64': { name: 'Small (64-bit modulus)', modulusBits: 64 },
+  '512': { name: '512-bit (broken since 1999)', modulusBits: 512 },
+  '1024': { name: '1024-bit (deprecated)', modulusBits: 1024 },
+  '2048': { name: '2048-bit (current minimum)', modulusBits: 2048 },
+};
+
+const PREFERRED_EXPONENT = 65537n;
+
+/**
+ * Rounds needed after trial division for an error probability below 2^-100,
+ * following FIPS 186-4 Table C.2; small primes are cheap, so they get more.
+ */
+const millerRabinRounds = (bits: number): number => (bits >= 1024 ? 4 : bits >= 512 ? 7 : 10);
+
+export interface RsaKey {
+  n: bigint;
+  e: bigint;
+  d: bigint;
+}
+
+export interface RsaOptions {
+  keySize?: RsaKeySize;
+  inputEncoding?: Encoding;
+}
+
+const push = (steps: Step[], operation: RsaOperation, step: Omit<RsaStep, 'kind' | 'operation'>) => {
+  steps.push({ kind: 'rsa', operation, ...step });
+};
+
+/**
+ * Draws random odd candidates with the top two bits set (so p·q has exactly
+ * twice the bits) until one passes Miller-Rabin. Large candidates are first
+ * screened by trial division, which is counted rather than traced.
+ */
+const generatePrime = (bits: number, name: string, steps: Step[], avoid?: bigint): bigint => {
+  const rounds = millerRabinRounds(bits);
+  let screened = 0;
+  let tested = 0;
+  for (;;) {
+    const candidate = randomBits(bits) | (3n << BigInt(bits - 2)) | 1n;
+    if (candidate === avoid) continue;
+    if (bits > 32 && hasSmallFactor(candidate) !== null) {
+      screened++;
+      continue;
+    }
+    tested++;
+    const test = millerRabin(candidate, rounds);
+    const last = test.rounds[test.rounds.length - 1];
+    push(steps, 'primeCandidate', {
+      title: `Prime ${name}: Candidate ${tested}`,
+      description: `${
+        screened > 0 ? `${screened} earlier candidate${screened === 1 ? ' was' : 's were'} discarded by trial division by the primes below 1000. ` : ''
+      }Miller-Rabin writes n - 1 = 2^s · d and checks random witnesses a: a prime always gives a^d = 1 or reaches n - 1 while squaring.`,
+      values: [
+        numberValue('Candidate', candidate),
+        tableValue(
+          'Miller-Rabin rounds',
+          ['Round', 'Witness a', 'a^d mod n, then squarings', 'Verdict'],
+          test.rounds.map((round, index) => [
+            index + 1,
+            abbreviate(round.witness),
+            round.sequence.map(abbreviate).join(' → '),
+            round.passed ? 'probably prime' : 'composite',
+          ])
+        ),
+        test.probablePrime
+          ? annotation(
+            `Passed all ${rounds} rounds; a composite survives each round with probability at most 1/4.`,
+            'success'
+          )
+          : annotation(`Witness ${abbreviate(last.witness)} proves the candidate composite.`, 'warning'),
+      ],
+    });
+    screened = 0;
+    if (test.probablePrime) return candidate;
+  }
+};
+
+/** Picks 65537 when it is coprime to φ(n), otherwise the smallest odd e that is. */
+const choosePublicExponent = (phi: bigint): { e: bigint; rejected: bigint[] } => {
+  const rejected: bigint[] = [];
+  if (PREFERRED_EXPONENT < phi) {
+    if (gcd(PREFERRED_EXPONENT, phi) === 1n) return { e: PREFERRED_EXPONENT, rejected };
+    rejected.push(PREFERRED_EXPONENT);
+  }
+  for (let e = 3n; ; e += 2n) {
+    if (gcd(e, phi) === 1n) return { e, rejected };
+    rejected.push(e);
+  }
+};
+
+/** Generates an RSA key pair, tracing prime selection, φ(n) and the derivation of d. */
+export const generateRsaKey = (modulusBits: number, steps: Step[] = []): RsaKey => {
+  const primeBits = modulusBits / 2;
+  const p = generatePrime(primeBits, 'p', steps);
+  reportProgress(steps, 0.3, 1);
+  const q = generatePrime(primeBits, 'q', steps, p);
+  reportProgress(steps, 0.6, 1);
+
+  const n = p * q;
+  push(steps, 'modulus', {
+    title: 'Modulus n = p · q',
+    description: 'The modulus is public; its security rests on nobody being able to factor it back into p and q.',
+    values: [numberValue('p', p), numberValue('q', q), numberValue('n', n)],
+  });
+
+  const phi = (p - 1n) * (q - 1n);
+  push(steps, 'totient', {
+    title: "Euler's Totient φ(n)",
+    description: 'φ(n) = (p - 1)(q - 1) counts the integers below n that are coprime to it. Computing it needs p and q, so it stays secret.',
+    values: [numberValue('φ(n)', phi)],
+  });
+
+  const { e, rejected } = choosePublicExponent(phi);
+  push(steps, 'publicExponent', {
+    title: 'Public Exponent e',
+    description: `e must satisfy 1 < e < φ(n) and gcd(e, φ(n)) = 1 so that it has an inverse. ${
+      e === PREFERRED_EXPONENT
+        ? '65537 = 2^16 + 1 is the usual choice: it is prime and has only two 1 bits, so encryption is fast.'
+        : rejected.length > 0
+          ? `${rejected.map(String).join(', ')} share a factor with φ(n), so ${e} is used.`
+          : `65537 is larger than this toy φ(n), so the smallest valid e is used.`
+    }`,
+    values: [numberValue('e', e)],
+  });
+
+  const rows: EuclidRow[] = [];
+  const d = modInverse(e, phi, rows);
+  push(steps, 'privateExponent', {
+    title: 'Private Exponent d',
+    description: `The extended Euclidean algorithm finds d with e · d ≡ 1 (mod φ(n)) in ${rows.length} division steps, tracking the coefficients of e and φ(n) alongside each remainder.`,
+    values: [
+      bitLength(phi) <= DETAIL_BITS
+        ? tableValue(
+          'Extended Euclid',
+          ['Quotient', 'Remainder', 'Coefficient of e', 'Coefficient of φ(n)'],
+          rows.map((row) => [row.quotient, row.remainder, row.s, row.t])
+        )
+        : annotation(`${rows.length} division steps are too large to list at this key size.`),
+      numberValue('d', d),
+      annotation(`Check: e · d mod φ(n) = ${(e * d) % phi}.`, 'success'),
+    ],
+  });
+
+  return { n, e, d };
+};
+
+interface Exponentiation {
+  operation: RsaOperation;
+  title: string;
+  description: string;
+  base: [string, bigint];
+  exponent: [string, bigint];
+  output: string;
+  n: bigint;
+}
+
+/** Traces base^exponent mod n, bit by bit for small moduli and as a summary otherwise. */
+const exponentiate = (
+  steps: Step[],
+  { operation, title, description, base: [baseLabel, base], exponent: [exponentLabel, exponent], output, n }: Exponentiation
+): bigint => {
+  const rows: SquareMultiplyRow[] = [];
+  const value = modPow(base, exponent, n, rows);
+  push(steps, operation, {
+    title,
+    description,
+    values: [
+      numberValue(baseLabel, base),
+      squareMultiplyValue(rows, base, exponentLabel, n),
+      numberValue(output, value),
+    ],
+  });
+  return value;
+};
+
+interface Chunk {
+  bytes: Uint8Array;
+  value: bigint;
+}
+
+/** Splits the message into chunks of whole bytes whose value is always below n. */
+const encodeMessage = (data: Uint8Array, n: bigint, steps: Step[]): Chunk[] => {
+  const size = Math.floor((bitLength(n) - 1) / 8);
+  const chunks: Chunk[] = [];
+  for (let offset = 0; offset < data.length; offset += size) {
+    const bytes = data.slice(offset, offset + size);
+    chunks.push({ bytes, value: bytesToBigInt(bytes) });
+  }
+  push(steps, 'encode', {
+    title: 'Message to Integers',
+    description: `RSA works on integers smaller than n, so the ${data.length}-byte message is cut into ${chunks.length} chunk${
+      chunks.length === 1 ? '' : 's'
+    } of at most ${size} byte${size === 1 ? '' : 's'}, each read as a big-endian number.`,
+    values: [
+      bytesValue('Message', data),
+      tableValue('Chunks', ['Chunk', 'Bytes', 'Integer m'], chunks.map((chunk, i) => [i + 1, toHex(chunk.bytes), abbreviate(chunk.value)])),
+      annotation(
+        'This is textbook RSA: real systems add randomised padding (OAEP for encryption, PSS for signatures) because the bare scheme is deterministic and malleable.',
+        'warning'
+      ),
+    ],
+  });
+  return chunks;
+};
+
+const formatBlocks = (blocks: bigint[], n: bigint): string => {
+  const length = Math.ceil(bitLength(n) / 8);
+  return blocks.map((block) => toHex(bigIntToBytes(block, length))).join(' ');
+};
+
+/**
+ * Generates a fresh key pair and walks through textbook RSA: encryption with
+ * the public key and decryption with the private key, or signing with the
+ * private key and verification with the public key.
+ */
+export const runRsa = (
+  input: string,
+  operation: 'encrypt' | 'both' | 'sign',
+  { keySize = 'toy', inputEncoding = 'utf8' }: RsaOptions = {},
+  steps: Step[] = []
+): EngineResult => {
+  const data = decodeText(input, inputEncoding);
+  if (data.length === 0) {
+    throw new Error('RSA needs at least one byte of input');
+  }
+  const { n, e, d } = generateRsaKey(RSA_KEY_SIZES[keySize].modulusBits, steps);
+  const chunks = encodeMessage(data, n, steps);
+  const label = (index: number) => (chunks.length > 1 ? `Chunk ${index + 1} · ` : '');
+  const total = operation === 'encrypt' ? chunks.length : chunks.length * 2;
+  const progress = (done: number) => reportProgress(steps, 0.6 + (0.4 * done) / total, 1);
+
+  if (operation === 'sign') {
+    const signatures = chunks.map(({ value }, index) => {
+      const signature = exponentiate(steps, {
+        operation: 'sign',
+        title: `${label(index)}Sign: s = m^d mod n`,
+        description: 'Only the holder of d can compute s; anyone can check it with the public key.',
+        base: ['m', value],
+        exponent: ['d', d],
+        output: 's',
+        n,
+      });
+      progress(index + 1);
+      return signature;
+    });
+    const valid = signatures.every((signature, index) => {
+      const recovered = exponentiate(steps, {
+        operation: 'verify',
+        title: `${label(index)}Verify: s^e mod n`,
+        description: 'Raising the signature to e undoes d, because e · d ≡ 1 (mod φ(n)).',
+        base: ['s', signature],
+        exponent: ['e', e],
+        output: 'Recovered m',
+        n,
+      });
+      progress(chunks.length + index + 1);
+      return recovered === chunks[index].value;
+    });
+    steps[steps.length - 1].values.push(
+      valid
+        ? annotation('Every recovered chunk equals the message chunk: the signature is valid.', 'success')
+        : annotation('A recovered chunk differs from the message: the signature is invalid.', 'warning')
+    );
+    return { steps, result: `${formatBlocks(signatures, n)} (${valid ? 'valid' : 'invalid'})` };
+  }
+
+  const ciphertext = chunks.map(({ value }, index) => {
+    const c = exponentiate(steps, {
+      operation: 'encrypt',
+      title: `${label(index)}Encrypt: c = m^e mod n`,
+      description: 'Anyone with the public key (n, e) can encrypt.',
+      base: ['m', value],
+      exponent: ['e', e],
+      output: 'c',
+      n,
+    });
+    progress(index + 1);
+    return c;
+  });
+  const result = formatBlocks(ciphertext, n);
+  if (operation === 'encrypt') {
+    return { steps, result };
+  }
+
+  const recovered = ciphertext.map((c, index) => {
+    const m = exponentiate(steps, {
+      operation: 'decrypt',
+      title: `${label(index)}Decrypt: m = c^d mod n`,
+      description: 'Only the private exponent d reverses the encryption, since m^(e·d) ≡ m (mod n).',
+      base: ['c', c],
+      exponent: ['d', d],
+      output: 'm',
+      n,
+    });
+    progress(chunks.length + index + 1);
+    return bigIntToBytes(m, chunks[index].bytes.length);
+  });
+  const plaintext = Uint8Array.from(recovered.flatMap((bytes) => Array.from(bytes)));
+  const matches = plaintext.length === data.length && plaintext.every((byte, i) => byte === data[i]);
+  return {
+    steps,
+    result,
+    roundTrip: { ciphertext: result, recovered: bytesToText(plaintext), matches },
+  };
+};
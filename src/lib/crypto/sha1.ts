@@ -0,0 +1,90 @@
+/** SHA-1 (FIPS 180-4). */
+import type { Encoding } from './encoding';
+import { HashEmit, HashExample, MerkleDamgardHash, hex32, merkleDamgard, rotl, runHash } from './hash';
+import { tableValue } from './trace';
+import type { EngineResult, Step } from './types';
+
+/** The boolean function and constant of each stage of twenty rounds; the constants are ⌊2³⁰·√2⌋, ⌊2³⁰·√3⌋, ⌊2³⁰·√5⌋ and ⌊2³⁰·√10⌋. */
+const STAGES: { name: string; formula: string; f: (b: number, c: number, d: number) => number; k: number }[] = [
+  { name: 'Ch', formula: '(b ∧ c) ⊕ (¬b ∧ d)', f: (b, c, d) => (b & c) ^ (~b & d), k: 0x5a827999 },
+  { name: 'Parity', formula: 'b ⊕ c ⊕ d', f: (b, c, d) => b ^ c ^ d, k: 0x6ed9eba1 },
+  { name: 'Maj', formula: '(b ∧ c) ⊕ (b ∧ d) ⊕ (c ∧ d)', f: (b, c, d) => (b & c) ^ (b & d) ^ (c & d), k: 0x8f1bbcdc },
+  { name: 'Parity', formula: 'b ⊕ c ⊕ d', f: (b, c, d) => b ^ c ^ d, k: 0xca62c1d6 },
+];
+
+const REGISTERS = ['a', 'b', 'c', 'd', 'e'];
+
+/** The worked examples of the FIPS 180-4 example document, used to confirm the trace. */
+export const SHA1_EXAMPLES: HashExample[] = [
+  { message: 'abc', digest: 'a9993e364706816aba3e25717850c26c9cd0d89d', source: 'FIPS 180-4 example' },
+  {
+    message: 'abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq',
+    digest: '84983e441c3bd26ebaae4aa1f95129e5e54670f1',
+    source: 'FIPS 180-4 example',
+  },
+];
+
+const round = (w: Uint32Array, t: number, state: number[], emit?: HashEmit): number[] => {
+  const [a, b, c, d, e] = state;
+  const stage = STAGES[Math.floor(t / 20)];
+  const f = stage.f(b, c, d) >>> 0;
+  const temp = (rotl(a, 5) + f + e + stage.k + w[t]) >>> 0;
+  const next = [temp, a, rotl(b, 30) >>> 0, c, d];
+  emit?.('round', {
+    round: t,
+    group: [`Rounds ${Math.floor(t / 20) * 20}–${Math.floor(t / 20) * 20 + 19}: ${stage.name}`],
+    title: `Round ${t}`,
+    description: `Rounds ${Math.floor(t / 20) * 20}–${Math.floor(t / 20) * 20 + 19} use the ${stage.name} function. The new a is T = ROTL5(a) + ${stage.name}(b, c, d) + e + Kt + Wt, b is rotated into c, and the rest shift down one place.`,
+    values: [
+      tableValue('Working variables', ['', ...REGISTERS], [
+        ['Before', ...state.map(hex32)],
+        ['After', ...next.map(hex32)],
+      ]),
+      tableValue('Round function', ['Quantity', 'Formula', 'Value'], [
+        ['ROTL5(a)', 'a rotated left 5', hex32(rotl(a, 5))],
+        [`${stage.name}(b, c, d)`, stage.formula, hex32(f)],
+        ['Kt', 'stage constant', hex32(stage.k)],
+        ['Wt', 'schedule word', hex32(w[t])],
+        ['New a', `ROTL5(a) + ${stage.name} + e + Kt + Wt`, hex32(temp)],
+        ['New c', 'ROTL30(b)', hex32(next[2])],
+      ]),
+    ],
+  });
+  return next;
+};
+
+export const SHA1: MerkleDamgardHash = {
+  name: 'SHA-1',
+  littleEndian: false,
+  initial: [0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476, 0xc3d2e1f0],
+  registers: ['H0', 'H1', 'H2', 'H3', 'H4'],
+  initialDescription: 'H⁽⁰⁾ is MD5\'s four counting words read big-endian, plus a fifth word c3d2e1f0.',
+  compress: (words, state, emit) => {
+    const w = new Uint32Array(80);
+    w.set(words);
+    for (let t = 16; t < 80; t++) w[t] = rotl(w[t - 3] ^ w[t - 8] ^ w[t - 14] ^ w[t - 16], 1);
+    emit?.('schedule', {
+      title: 'Message Schedule',
+      description: 'W0–W15 are the sixteen big-endian words of the block; each later word is Wt = ROTL1(Wt−3 ⊕ Wt−8 ⊕ Wt−14 ⊕ Wt−16). The one-bit rotation was added in 1995 to fix a weakness of the original SHA-0, which lacked it.',
+      values: [
+        tableValue('Schedule', ['t', 'Wt', 'Wt−3 ⊕ Wt−8 ⊕ Wt−14 ⊕ Wt−16'], Array.from(w, (word, t) => [
+          t,
+          hex32(word),
+          t < 16 ? '' : hex32(w[t - 3] ^ w[t - 8] ^ w[t - 14] ^ w[t - 16]),
+        ])),
+      ],
+    });
+    let working = state;
+    for (let t = 0; t < 80; t++) working = round(w, t, working, emit);
+    return working;
+  },
+};
+
+export const sha1 = (message: Uint8Array, steps?: Step[]): Uint8Array => merkleDamgard(SHA1, message, steps);
+
+/** Hashes the input with a full SHA-1 trace, ending with the digest and a check against the FIPS examples. */
+export const runSha1 = (
+  input: string,
+  options: { inputEncoding?: Encoding; outputEncoding?: Encoding } = {},
+  steps: Step[] = []
+): EngineResult => runHash(SHA1, input, options, steps, SHA1_EXAMPLES);
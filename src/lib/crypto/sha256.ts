@@ -0,0 +1,114 @@
+/** SHA-256 (FIPS 180-4). */
+import type { Encoding } from './encoding';
+import { HashEmit, HashExample, MerkleDamgardHash, hex32, merkleDamgard, rotr, runHash } from './hash';
+import { tableValue } from './trace';
+import type { EngineResult, Step } from './types';
+
+/** First 32 bits of the fractional parts of the cube roots of the first 64 primes. */
+const K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+/** First 32 bits of the fractional parts of the square roots of the first 8 primes. */
+const H0 = [0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19];
+
+const REGISTERS = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'];
+
+/** The worked examples of the FIPS 180-4 example document, used to confirm the trace. */
+export const FIPS_EXAMPLES: HashExample[] = [
+  { message: 'abc', digest: 'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad', source: 'FIPS 180-4 example' },
+  {
+    message: 'abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq',
+    digest: '248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1',
+    source: 'FIPS 180-4 example',
+  },
+];
+
+const round = (w: Uint32Array, t: number, state: number[], emit?: HashEmit): number[] => {
+  const [a, b, c, d, e, f, g, h] = state;
+  const bigSigma1 = rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25);
+  const ch = (e & f) ^ (~e & g);
+  const t1 = (h + bigSigma1 + ch + K[t] + w[t]) >>> 0;
+  const bigSigma0 = rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22);
+  const maj = (a & b) ^ (a & c) ^ (b & c);
+  const t2 = (bigSigma0 + maj) >>> 0;
+  const next = [(t1 + t2) >>> 0, a, b, c, (d + t1) >>> 0, e, f, g];
+  emit?.('round', {
+    round: t,
+    title: `Round ${t}`,
+    description: 'Two temporaries feed the new a and e; every other variable shifts down one place (b ← a, c ← b, …, h ← g).',
+    values: [
+      tableValue('Working variables', ['', ...REGISTERS], [
+        ['Before', ...state.map(hex32)],
+        ['After', ...next.map(hex32)],
+      ]),
+      tableValue('Round function', ['Quantity', 'Formula', 'Value'], [
+        ['Σ1(e)', 'ROTR6(e) ⊕ ROTR11(e) ⊕ ROTR25(e)', hex32(bigSigma1)],
+        ['Ch(e, f, g)', '(e ∧ f) ⊕ (¬e ∧ g)', hex32(ch)],
+        ['Kt', 'constant', hex32(K[t])],
+        ['Wt', 'schedule word', hex32(w[t])],
+        ['T1', 'h + Σ1(e) + Ch(e, f, g) + Kt + Wt', hex32(t1)],
+        ['Σ0(a)', 'ROTR2(a) ⊕ ROTR13(a) ⊕ ROTR22(a)', hex32(bigSigma0)],
+        ['Maj(a, b, c)', '(a ∧ b) ⊕ (a ∧ c) ⊕ (b ∧ c)', hex32(maj)],
+        ['T2', 'Σ0(a) + Maj(a, b, c)', hex32(t2)],
+        ['New a', 'T1 + T2', hex32(next[0])],
+        ['New e', 'd + T1', hex32(next[4])],
+      ]),
+    ],
+  });
+  return next;
+};
+
+export const SHA256: MerkleDamgardHash = {
+  name: 'SHA-256',
+  littleEndian: false,
+  initial: H0,
+  registers: H0.map((_, i) => `H${i}`),
+  initialDescription: 'H⁽⁰⁾ is eight 32-bit words taken from the fractional parts of the square roots of the first eight primes, "nothing up my sleeve" numbers anyone can recompute.',
+  compress: (words, state, emit) => {
+    const w = new Uint32Array(64);
+    const sigmas: [number, number][] = [];
+    w.set(words);
+    for (let t = 16; t < 64; t++) {
+      const s0 = rotr(w[t - 15], 7) ^ rotr(w[t - 15], 18) ^ (w[t - 15] >>> 3);
+      const s1 = rotr(w[t - 2], 17) ^ rotr(w[t - 2], 19) ^ (w[t - 2] >>> 10);
+      w[t] = w[t - 16] + s0 + w[t - 7] + s1;
+      sigmas[t] = [s0, s1];
+    }
+    emit?.('schedule', {
+      title: 'Message Schedule',
+      description: 'W0–W15 are the sixteen big-endian words of the block. Each later word mixes four earlier ones: Wt = σ1(Wt−2) + Wt−7 + σ0(Wt−15) + Wt−16, where σ0 = ROTR7 ⊕ ROTR18 ⊕ SHR3 and σ1 = ROTR17 ⊕ ROTR19 ⊕ SHR10.',
+      values: [
+        tableValue('Schedule', ['t', 'Wt', 'σ0(Wt−15)', 'σ1(Wt−2)'], Array.from(w, (word, t) => [
+          t,
+          hex32(word),
+          t < 16 ? '' : hex32(sigmas[t][0]),
+          t < 16 ? '' : hex32(sigmas[t][1]),
+        ])),
+      ],
+    });
+    let working = state;
+    for (let t = 0; t < 64; t++) working = round(w, t, working, emit);
+    return working;
+  },
+};
+
+/**
+ * Hashes a message, tracing padding, every block's message schedule and
+ * compression rounds, and the chaining additions when `steps` is given.
+ */
+export const sha256 = (message: Uint8Array, steps?: Step[]): Uint8Array => merkleDamgard(SHA256, message, steps);
+
+/** Hashes the input with a full SHA-256 trace, ending with the digest and a check against the FIPS examples. */
+export const runSha256 = (
+  input: string,
+  options: { inputEncoding?: Encoding; outputEncoding?: Encoding } = {},
+  steps: Step[] = []
+): EngineResult => runHash(SHA256, input, options, steps, FIPS_EXAMPLES);
@@ -0,0 +1,51 @@
+import type { Step } from './types';
+
+export interface StepStreamHandlers {
+  /** Receives steps in production order, in batches of up to `batchSize`. */
+  onSteps: (steps: Step[]) => void;
+  /** Receives the fraction of the work done, from 0 to 1. */
+  onProgress?: (fraction: number) => void;
+  batchSize?: number;
+}
+
+/**
+ * A step array that forwards steps to a listener as engines push them.
+ * The most recent step is held back until the next one arrives (or `flush`
+ * is called), because engines may still attach a result to it.
+ */
+export class StepStream extends Array<Step> {
+  static get [Symbol.species]() {
+    return Array;
+  }
+
+  private pending: Step[] = [];
+
+  constructor(private readonly handlers: StepStreamHandlers) {
+    super();
+  }
+
+  push(...items: Step[]): number {
+    this.pending.push(...items);
+    if (this.pending.length > (this.handlers.batchSize ?? 64)) {
+      this.handlers.onSteps(this.pending.splice(0, this.pending.length - 1));
+    }
+    return super.push(...items);
+  }
+
+  progress(fraction: number): void {
+    this.handlers.onProgress?.(Math.min(1, Math.max(0, fraction)));
+  }
+
+  flush(): void {
+    if (this.pending.length > 0) {
+      this.handlers.onSteps(this.pending.splice(0));
+    }
+  }
+}
+
+/** Reports how much of its work an engine has done when its steps are being streamed. */
+export const reportProgress = (steps: Step[], done: number, total: number): void => {
+  if (steps instanceof StepStream && total > 0) {
+    steps.progress(done / total);
+  }
+};
@@ -0,0 +1,122 @@
+import { fromHex, toHex } from './bytes';
+import { Bits, DES_BLOCK_SIZE, bitsToBytes, deriveSubkeys, desBlock } from './des';
+import { BlockCipher, BlockCipherOptions, CIPHER_MODES, runBlockCipher } from './modes';
+import { annotation, inGroup, keyValue, tableValue } from './trace';
+import type { EngineResult, Step } from './types';
+
+/** The three independent keys used as the example in NIST SP 800-67. */
+export const DEFAULT_TDES_KEY = fromHex('0123456789abcdef23456789abcdef01456789abcdef0123');
+
+export type KeyingOption = 1 | 2 | 3;
+
+/** SP 800-67 keying options, told apart by key length, with the strength each offers. */
+export const KEYING_OPTIONS: Record<KeyingOption, { name: string; keys: string; security: string }> = {
+  1: { name: 'Keying option 1', keys: 'K1, K2 and K3 independent', security: 'about 112 bits (meet-in-the-middle)' },
+  2: { name: 'Keying option 2', keys: 'K1 = K3, K2 independent', security: 'about 80 bits' },
+  3: { name: 'Keying option 3', keys: 'K1 = K2 = K3', security: '56 bits, the same as single DES' },
+};
+
+/** Splits a 24, 16 or 8-byte key into K1, K2 and K3, repeating keys as the keying option requires. */
+export const splitTdesKey = (key: Uint8Array): { option: KeyingOption; keys: [Uint8Array, Uint8Array, Uint8Array] } => {
+  const part = (index: number) => key.slice(index * DES_BLOCK_SIZE, (index + 1) * DES_BLOCK_SIZE);
+  switch (key.length) {
+    case 24:
+      return { option: 1, keys: [part(0), part(1), part(2)] };
+    case 16:
+      return { option: 2, keys: [part(0), part(1), part(0)] };
+    case 8:
+      return { option: 3, keys: [part(0), part(0), part(0)] };
+    default:
+      throw new Error(`Triple DES keys must be 24, 16 or 8 bytes, got ${key.length}`);
+  }
+};
+
+// DES ignores the low bit of every key byte, so keys that differ only there are the same key.
+const sameDesKey = (a: Uint8Array, b: Uint8Array): boolean => a.every((byte, i) => (byte & 0xfe) === (b[i] & 0xfe));
+
+/**
+ * Explains when Encrypt-Decrypt-Encrypt collapses: a decryption under the
+ * key of a neighbouring encryption undoes it, leaving one DES pass.
+ */
+const degradation = ([k1, k2, k3]: Uint8Array[], option: KeyingOption): string | null => {
+  if (option === 3) {
+    return 'With one key the decryption undoes the first encryption, so this is single DES. Keying option 3 exists only so 3DES hardware can talk to DES systems.';
+  }
+  if (sameDesKey(k1, k2)) {
+    return `K1 equals K2 (ignoring parity bits), so the first two passes cancel and this is single DES under K3${option === 1 ? ', even though keying option 1 was meant to give three independent keys' : ''}.`;
+  }
+  if (sameDesKey(k2, k3)) {
+    return `K2 equals K3 (ignoring parity bits), so the last two passes cancel and this is single DES under K1${option === 1 ? ', even though keying option 1 was meant to give three independent keys' : ''}.`;
+  }
+  return null;
+};
+
+type Pass = { operation: 'Encrypt' | 'Decrypt'; key: number };
+
+const ENCRYPT_PASSES: Pass[] = [
+  { operation: 'Encrypt', key: 1 },
+  { operation: 'Decrypt', key: 2 },
+  { operation: 'Encrypt', key: 3 },
+];
+
+// Decryption undoes the passes in reverse: D_K1(E_K2(D_K3(C))).
+const DECRYPT_PASSES: Pass[] = [
+  { operation: 'Decrypt', key: 3 },
+  { operation: 'Encrypt', key: 2 },
+  { operation: 'Decrypt', key: 1 },
+];
+
+/** A block cipher running three DES passes, each traced as its own group under the block's label. */
+export const createTdesCipher = (subkeys: Bits[][]): BlockCipher => {
+  const run = (passes: Pass[]) => (block: Uint8Array, steps: Step[], label: string): Uint8Array => {
+    const blockGroup = label ? [label.replace(/ · $/, '')] : [];
+    return passes.reduce((data, { operation, key }, index) => {
+      const keys = operation === 'Encrypt' ? subkeys[key - 1] : [...subkeys[key - 1]].reverse();
+      return inGroup(steps, [...blockGroup, `Pass ${index + 1}: ${operation} with K${key}`], (inner) =>
+        desBlock(data, keys, inner, `${label}Pass ${index + 1} · `)
+      );
+    }, block);
+  };
+  return {
+    blockSize: DES_BLOCK_SIZE,
+    encryptBlock: run(ENCRYPT_PASSES),
+    decryptBlock: run(DECRYPT_PASSES),
+  };
+};
+
+/**
+ * Runs Triple DES (EDE) over the whole input in the chosen mode of operation.
+ * The key length selects the keying option: three, two or one DES keys.
+ */
+export const runTdes = (
+  input: string,
+  direction: 'encrypt' | 'decrypt',
+  { key = DEFAULT_TDES_KEY, ...modeOptions }: BlockCipherOptions = {},
+  steps: Step[] = []
+): EngineResult => {
+  const { option, keys } = splitTdesKey(key);
+  const subkeys = keys.map(deriveSubkeys);
+  const warning = degradation(keys, option);
+  const reverse = direction === 'decrypt' && !CIPHER_MODES[modeOptions.mode ?? 'ecb'].stream;
+  steps.push({
+    kind: 'des',
+    operation: 'keySchedule',
+    title: 'Key Schedule',
+    description: `${KEYING_OPTIONS[option].name}: ${KEYING_OPTIONS[option].keys}. Each key gets the ordinary DES schedule of 16 subkeys, and every block goes through ${
+      reverse ? 'D_K1(E_K2(D_K3(C)))' : 'E_K3(D_K2(E_K1(P)))'
+    }.`,
+    values: [
+      keyValue('Key', key),
+      ...keys.map((k, index) => keyValue(`K${index + 1}`, k)),
+      tableValue('First and last subkeys', ['Key', 'Subkey 1', 'Subkey 16'], subkeys.map((keySubkeys, index) => [
+        `K${index + 1}`,
+        toHex(bitsToBytes(keySubkeys[0])),
+        toHex(bitsToBytes(keySubkeys[15])),
+      ])),
+      warning
+        ? annotation(warning, 'warning')
+        : annotation(`Effective strength: ${KEYING_OPTIONS[option].security}.`, option === 1 ? 'success' : 'info'),
+    ],
+  });
+  return runBlockCipher(createTdesCipher(subkeys), input, direction, modeOptions, steps);
+};
@@ -0,0 +1,138 @@
+import { SquareMultiplyRow, bitLength } from './bigint';
+import { toHex } from './bytes';
+import type { Step, TraceValue } from './types';
+
+export const groupBits = (bits: string): string => bits.replace(/([01]{4})(?=[01])/g, '$1 ');
+
+export const matrixValue = (label: string, rows: number[][]): TraceValue => ({ type: 'matrix', label, rows });
+
+export const bitsValue = (label: string, bits: string): TraceValue => ({ type: 'bits', label, bits });
+
+/** A row of bytes; highlight lists indices to emphasise, such as appended padding. */
+export const bytesValue = (label: string, bytes: ArrayLike<number>, highlight?: number[]): TraceValue => ({
+  type: 'bytes',
+  label,
+  bytes: Array.from(bytes),
+  highlight,
+});
+
+export const keyValue = (label: string, key: ArrayLike<number>): TraceValue => ({ type: 'key', label, hex: toHex(key) });
+
+export const numberValue = (label: string, value: bigint): TraceValue => ({
+  type: 'number',
+  label,
+  value: value.toString(),
+  bits: bitLength(value),
+});
+
+export const tableValue = (label: string, columns: string[], rows: (string | number | bigint)[][]): TraceValue => ({
+  type: 'table',
+  label,
+  columns,
+  rows: rows.map((row) => row.map(String)),
+});
+
+export const pointsValue = (
+  label: string,
+  modulus: number,
+  points: [number, number][],
+  marked: { label: string; x: number; y: number }[]
+): TraceValue => ({ type: 'points', label, modulus, points, marked });
+
+/** Numbers up to this many bits are small enough to show every intermediate value. */
+export const DETAIL_BITS = 64;
+
+/** Writes small numbers in full and large ones as the ends of their hex form. */
+export const abbreviate = (n: bigint): string => {
+  if (bitLength(n) <= DETAIL_BITS) return n.toString();
+  const hex = n.toString(16);
+  return `0x${hex.slice(0, 8)}…${hex.slice(-8)}`;
+};
+
+/** The rows of a traced modPow as a table for small moduli, or a one-line summary otherwise. */
+export const squareMultiplyValue = (rows: SquareMultiplyRow[], base: bigint, exponentLabel: string, modulus: bigint): TraceValue => {
+  if (bitLength(modulus) <= DETAIL_BITS) {
+    return tableValue(
+      `Square-and-multiply over the bits of ${exponentLabel}`,
+      ['Bit', 'Square', 'Multiply', 'Value'],
+      rows.map((row) => [row.bit, row.squared, row.bit ? `× ${base}` : '', row.result])
+    );
+  }
+  const multiplications = rows.filter((row) => row.bit === 1).length;
+  return annotation(
+    `Square-and-multiply over the ${rows.length} bits of ${exponentLabel}: ${rows.length} squarings and ${multiplications} multiplications modulo ${bitLength(modulus)}-bit numbers.`
+  );
+};
+
+export const lanesValue = (label: string, lanes: string[][], highlight?: number[], rateLanes?: number): TraceValue => ({
+  type: 'lanes',
+  label,
+  lanes,
+  ...(highlight ? { highlight } : {}),
+  ...(rateLanes !== undefined ? { rateLanes } : {}),
+});
+
+export const codewordValue = (
+  label: string,
+  bits: number[],
+  positions: number[],
+  parity: number[],
+  highlight?: number[]
+): TraceValue => ({ type: 'codeword', label, bits, positions, parity, ...(highlight ? { highlight } : {}) });
+
+export const annotation = (text: string, tone: 'info' | 'success' | 'warning' = 'info'): TraceValue => ({
+  type: 'annotation',
+  text,
+  tone,
+});
+
+/**
+ * Runs `run` against a fresh trace and moves its steps onto `steps` nested
+ * under `group`, so engines can reuse another engine's trace as a section.
+ */
+export const inGroup = <T>(steps: Step[], group: string[], run: (inner: Step[]) => T): T => {
+  const inner: Step[] = [];
+  const result = run(inner);
+  inner.forEach((step) => steps.push({ ...step, group: [...group, ...(step.group ?? [])] }));
+  return result;
+};
+
+/** Plain-text form of a trace value, used by the downloadable report. */
+export const formatTraceValue = (value: TraceValue): string => {
+  switch (value.type) {
+    case 'matrix':
+      return `${value.label}:\n${value.rows.map((row) => `  ${toHex(row, ' ')}`).join('\n')}`;
+    case 'bits':
+      return `${value.label}: ${groupBits(value.bits)}`;
+    case 'bytes':
+      return `${value.label}: ${toHex(value.bytes, ' ')}${
+        value.highlight?.length ? ` (highlighted: ${value.highlight.map((i) => toHex([value.bytes[i]])).join(' ')})` : ''
+      }`;
+    case 'key':
+      return `${value.label}: ${value.hex}`;
+    case 'number':
+      return `${value.label} (${value.bits} bits): ${value.value}`;
+    case 'table':
+      return [`${value.label}:`, `  ${value.columns.join(' | ')}`, ...value.rows.map((row) => `  ${row.join(' | ')}`)].join('\n');
+    case 'points':
+      return `${value.label}: ${value.points.length} points over F_${value.modulus}${
+        value.marked.length ? `; ${value.marked.map((point) => `${point.label} = (${point.x}, ${point.y})`).join(', ')}` : ''
+      }`;
+    case 'lanes':
+      return `${value.label}:\n${value.lanes.map((row) => `  ${row.join(' ')}`).join('\n')}`;
+    case 'codeword':
+      return `${value.label}: ${value.bits.join('')} (parity at ${value.parity.join(', ')}${
+        value.highlight?.length ? `; marked ${value.highlight.join(', ')}` : ''
+      })`;
+    case 'annotation':
+      return `Note: ${value.text}`;
+  }
+};
+
+export const formatStep = (step: Step, index: number): string =>
+  [
+    `Step ${index + 1}: ${step.title}`,
+    `Description: ${step.description}`,
+    ...step.values.map(formatTraceValue),
+    ...(step.result ? [`Result: ${step.result}`] : []),
+  ].join('\n');
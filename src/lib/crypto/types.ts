@@ -0,0 +1,215 @@
+/** One piece of data shown alongside a step. */
+export type TraceValue =
+  | { type: 'matrix'; label: string; rows: number[][] }
+  | { type: 'bits'; label: string; bits: string }
+  | { type: 'bytes'; label: string; bytes: number[]; highlight?: number[] }
+  | { type: 'key'; label: string; hex: string }
+  /** An arbitrary-precision integer, kept as a decimal string so it survives JSON and worker messages. */
+  | { type: 'number'; label: string; value: string; bits: number }
+  | { type: 'table'; label: string; columns: string[]; rows: string[][] }
+  /** Every point of a curve over a small prime field, with some of them marked and named. */
+  | { type: 'points'; label: string; modulus: number; points: [number, number][]; marked: { label: string; x: number; y: number }[] }
+  /**
+   * A 5×5 grid of 64-bit lanes as hex, indexed lanes[y][x]. Highlighted lanes
+   * are given by their index x + 5y; the first `rateLanes` lanes are the rate.
+   */
+  | { type: 'lanes'; label: string; lanes: string[][]; highlight?: number[]; rateLanes?: number }
+  /**
+   * The bits of an error-correcting codeword, with the position number of
+   * each bit. `parity` and `highlight` list position numbers, not indices.
+   */
+  | { type: 'codeword'; label: string; bits: number[]; positions: number[]; parity: number[]; highlight?: number[] }
+  | { type: 'annotation'; text: string; tone: 'info' | 'success' | 'warning' };
+
+interface StepBase {
+  title: string;
+  description: string;
+  values: TraceValue[];
+  result?: string;
+  /** Set on steps of a combined encrypt-then-decrypt trace. */
+  phase?: 'encrypt' | 'decrypt';
+  /** Nested sections the step belongs to, outermost first, such as a Triple DES block and pass. */
+  group?: string[];
+}
+
+export type AesOperation =
+  | 'keyExpansion'
+  | 'input'
+  | 'addRoundKey'
+  | 'subBytes'
+  | 'invSubBytes'
+  | 'shiftRows'
+  | 'invShiftRows'
+  | 'mixColumns'
+  | 'invMixColumns';
+
+export interface AesStep extends StepBase {
+  kind: 'aes';
+  operation: AesOperation;
+  round?: number;
+}
+
+export type DesOperation =
+  | 'keySchedule'
+  | 'initialPermutation'
+  | 'expansion'
+  | 'keyMixing'
+  | 'sbox'
+  | 'permutation'
+  | 'swap'
+  | 'finalPermutation';
+
+export interface DesStep extends StepBase {
+  kind: 'des';
+  operation: DesOperation;
+  round?: number;
+}
+
+export interface ModeStep extends StepBase {
+  kind: 'mode';
+  operation: 'setup' | 'independent' | 'chain' | 'keystreamInput' | 'keystreamXor' | 'counter' | 'patternCheck';
+}
+
+export interface GcmStep extends StepBase {
+  kind: 'gcm';
+  operation: 'hashKey' | 'preCounter' | 'counter' | 'keystreamXor' | 'ghash' | 'tag' | 'tagVerified';
+}
+
+export interface PaddingStep extends StepBase {
+  kind: 'padding';
+  operation: 'pad' | 'unpad';
+}
+
+export interface ChecksumStep extends StepBase {
+  kind: 'checksum';
+  operation: 'divide' | 'add' | 'appendChecksum' | 'complement' | 'combine' | 'checkDigit' | 'compare';
+}
+
+export type CrcOperation = 'parameters' | 'table' | 'byte' | 'finalize' | 'compare';
+
+export interface CrcStep extends StepBase {
+  kind: 'crc';
+  operation: CrcOperation;
+}
+
+export interface RoundTripStep extends StepBase {
+  kind: 'roundTrip';
+  matches: boolean;
+}
+
+export type RsaOperation =
+  | 'primeCandidate'
+  | 'modulus'
+  | 'totient'
+  | 'publicExponent'
+  | 'privateExponent'
+  | 'encode'
+  | 'encrypt'
+  | 'decrypt'
+  | 'sign'
+  | 'verify';
+
+export interface RsaStep extends StepBase {
+  kind: 'rsa';
+  operation: RsaOperation;
+}
+
+export type DhOperation = 'parameters' | 'privateKey' | 'publicKey' | 'exchange' | 'sharedSecret' | 'eavesdrop' | 'compare';
+
+/** Which column of the Alice / wire / Bob sequence view a Diffie-Hellman step belongs to. */
+export type DhLane = 'public' | 'alice' | 'wire' | 'bob' | 'eve';
+
+export interface DhStep extends StepBase {
+  kind: 'dh';
+  operation: DhOperation;
+  lane: DhLane;
+}
+
+export type EccOperation = 'curve' | 'basePoint' | 'privateKey' | 'double' | 'add' | 'publicKey';
+
+export interface EccStep extends StepBase {
+  kind: 'ecc';
+  operation: EccOperation;
+  /** Index of the scalar bit a double or add step handles, counted from the most significant. */
+  bit?: number;
+}
+
+export type EcdsaOperation =
+  | 'keyPair'
+  | 'hash'
+  | 'nonce'
+  | 'signature'
+  | 'verify'
+  | 'nonceReuse'
+  | 'recoverNonce'
+  | 'recoverKey';
+
+export interface EcdsaStep extends StepBase {
+  kind: 'ecdsa';
+  operation: EcdsaOperation;
+}
+
+export type HashOperation = 'init' | 'pad' | 'schedule' | 'round' | 'chain' | 'digest';
+
+export interface HashStep extends StepBase {
+  kind: 'hash';
+  operation: HashOperation;
+  /** 1-based index of the message block being compressed. */
+  block?: number;
+  round?: number;
+}
+
+export type HmacOperation = 'prepareKey' | 'innerPad' | 'innerHash' | 'outerPad' | 'outerHash' | 'compare';
+
+export interface HmacStep extends StepBase {
+  kind: 'hmac';
+  operation: HmacOperation;
+}
+
+export type KeccakOperation = 'init' | 'pad' | 'absorb' | 'theta' | 'rho' | 'pi' | 'chi' | 'iota' | 'squeeze' | 'digest';
+
+export interface KeccakStep extends StepBase {
+  kind: 'keccak';
+  operation: KeccakOperation;
+  /** Round of Keccak-f[1600], from 0 to 23. */
+  round?: number;
+}
+
+export type HammingOperation = 'split' | 'encode' | 'codewords' | 'corrupt' | 'syndrome' | 'correct' | 'decode';
+
+export interface HammingStep extends StepBase {
+  kind: 'hamming';
+  operation: HammingOperation;
+  /** Codeword the step works on, counted from 1. */
+  codeword?: number;
+}
+
+export type Step =
+  | AesStep
+  | DesStep
+  | ModeStep
+  | GcmStep
+  | PaddingStep
+  | ChecksumStep
+  | CrcStep
+  | RoundTripStep
+  | RsaStep
+  | DhStep
+  | EccStep
+  | EcdsaStep
+  | HashStep
+  | HmacStep
+  | KeccakStep
+  | HammingStep;
+
+export interface RoundTrip {
+  ciphertext: string;
+  recovered: string;
+  matches: boolean;
+}
+
+export interface EngineResult {
+  steps: Step[];
+  result: string;
+  roundTrip?: RoundTrip;
+}
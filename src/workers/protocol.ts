@@ -0,0 +1,17 @@
+import type { Algorithm } from '@/components/algorithms/engines';
+import type { Action, ProcessOptions } from '@/components/algorithms/types';
+import type { RoundTrip, Step } from '@/lib/crypto/types';
+
+/** Sent once to a fresh trace worker; each run gets its own worker so cancelling is just terminating it. */
+export interface RunRequest {
+  algorithm: Algorithm;
+  input: string;
+  action: Action;
+  options: ProcessOptions;
+}
+
+export type WorkerMessage =
+  | { type: 'steps'; steps: Step[] }
+  | { type: 'progress'; fraction: number }
+  | { type: 'done'; result: string; roundTrip?: RoundTrip }
+  | { type: 'error'; name: string; message: string };
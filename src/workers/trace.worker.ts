@@ -0,0 +1,28 @@
+import { engines } from '@/components/algorithms/engines';
+import { StepStream } from '@/lib/crypto/stream';
+import type { RunRequest, WorkerMessage } from './protocol';
+
+const post = (message: WorkerMessage) => self.postMessage(message);
+
+self.onmessage = ({ data }: MessageEvent<RunRequest>) => {
+  let reported = 0;
+  const steps = new StepStream({
+    onSteps: (batch) => post({ type: 'steps', steps: batch }),
+    onProgress: (fraction) => {
+      // Engines report after every block; one message per percent is plenty.
+      if (fraction - reported >= 0.01 || fraction === 1) {
+        reported = fraction;
+        post({ type: 'progress', fraction });
+      }
+    },
+  });
+
+  try {
+    const { result, roundTrip } = engines[data.algorithm](data.input, data.action, data.options, steps);
+    steps.flush();
+    post({ type: 'done', result, roundTrip });
+  } catch (error) {
+    const { name, message } = error instanceof Error ? error : new Error(String(error));
+    post({ type: 'error', name, message });
+  }
+};